@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { DUMMY_PASSWORD_HASH, verifyPassword } from "@/lib/auth/password";
+import { startSession } from "@/lib/auth/session";
+import { findUserByEmail, toPublicUser } from "@/lib/auth/users";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const email = typeof body?.email === "string" ? body.email : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+
+  const user = email ? await findUserByEmail(email) : undefined;
+  // Same answer, and the same scrypt work, for unknown email and wrong password
+  const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !valid) {
+    return NextResponse.json({ error: "Invalid email or password." }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ user: toPublicUser(user) });
+  await startSession(response, user.id);
+  return response;
+}
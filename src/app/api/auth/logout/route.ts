@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+
+import { endSession } from "@/lib/auth/session";
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  await endSession(response);
+  return response;
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUser } from "@/lib/auth/session";
+import { toPublicUser } from "@/lib/auth/users";
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+  }
+  return NextResponse.json({ user: toPublicUser(user) });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { startSession } from "@/lib/auth/session";
+import { createUser, toPublicUser } from "@/lib/auth/users";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  const email = typeof body?.email === "string" ? body.email.trim() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+
+  if (!username) {
+    return NextResponse.json({ error: "Username is required." }, { status: 400 });
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return NextResponse.json({ error: "Please enter a valid email address." }, { status: 400 });
+  }
+  if (password.length < 8) {
+    return NextResponse.json(
+      { error: "Password must be at least 8 characters long." },
+      { status: 400 }
+    );
+  }
+
+  const user = await createUser({ username, email, password });
+  if (!user) {
+    return NextResponse.json(
+      { error: "An account with this email already exists." },
+      { status: 409 }
+    );
+  }
+
+  const response = NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  await startSession(response, user.id);
+  return response;
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { getSessionUser } from "@/lib/auth/session";
+import { getProgressSummary, recordProgress } from "@/lib/progress/store";
+import { findPuzzle } from "@/lib/puzzles";
+import { isGameId, type ProgressReport } from "@/lib/progress/types";
+
+const toCount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : 0;
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+  }
+  return NextResponse.json(await getProgressSummary(user.id));
+}
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+  }
+  const body = await request.json().catch(() => null);
+  if (!isGameId(body?.game)) {
+    return NextResponse.json({ error: "Unknown game." }, { status: 400 });
+  }
+  const report: ProgressReport = {
+    game: body.game,
+    attempts: toCount(body.attempts),
+    correctChecks: toCount(body.correctChecks),
+    puzzlesSolved: toCount(body.puzzlesSolved),
+    timeSpentMs: toCount(body.timeSpentMs),
+  };
+  if (body.puzzleId !== undefined) {
+    const puzzle = findPuzzle(body.puzzleId);
+    if (!puzzle || puzzle.game !== report.game) {
+      return NextResponse.json({ error: "Unknown puzzle." }, { status: 400 });
+    }
+    report.puzzleId = puzzle.id;
+    report.edits = toCount(body.edits);
+  }
+  await recordProgress(user.id, report);
+  return NextResponse.json({ ok: true });
+}
@@ -1,18 +1,37 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { Bar, Line } from 'react-chartjs-2'
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, PointElement, LineElement, Title, Tooltip, Legend } from 'chart.js'
 
+import { fetchProgressSummary } from '@/lib/progress/client'
+import { GAME_IDS, GAME_LABELS, type ProgressSummary } from '@/lib/progress/types'
+
 ChartJS.register(CategoryScale, LinearScale, BarElement, PointElement, LineElement, Title, Tooltip, Legend)
 
+const formatMinutes = (ms: number) => `${Math.round(ms / 60000)} min`
+
 export default function Dashboard() {
+  const [summary, setSummary] = useState<ProgressSummary | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchProgressSummary()
+      .then((data) => (data ? setSummary(data) : setError('Could not load your progress.')))
+      .catch(() => setError('Could not load your progress.'))
+  }, [])
+
+  // Score = share of checks that passed, per game
   const barChartData = {
-    labels: ['Lattices', 'POSET', 'Permutations'],
+    labels: GAME_IDS.map((g) => GAME_LABELS[g]),
     datasets: [
       {
-        label: 'Score',
-        data: [65, 59, 80],
+        label: 'Score (% correct checks)',
+        data: GAME_IDS.map((g) => {
+          const c = summary?.games[g]
+          return c && c.attempts ? Math.round((c.correctChecks / c.attempts) * 100) : 0
+        }),
         backgroundColor: ['rgba(255, 99, 132, 0.2)', 'rgba(54, 162, 235, 0.2)', 'rgba(255, 206, 86, 0.2)'],
         borderColor: ['rgba(255, 99, 132, 1)', 'rgba(54, 162, 235, 1)', 'rgba(255, 206, 86, 1)'],
         borderWidth: 1,
@@ -21,21 +40,29 @@ export default function Dashboard() {
   }
 
   const lineChartData = {
-    labels: ['Week 1', 'Week 2', 'Week 3', 'Week 4'],
+    labels: summary?.weeks.map((w) => `Week of ${w.weekStart}`) ?? [],
     datasets: [
       {
-        label: 'Progress',
-        data: [12, 19, 3, 5],
+        label: 'Correct checks',
+        data: summary?.weeks.map((w) => w.counters.correctChecks) ?? [],
         fill: false,
         borderColor: 'rgb(75, 192, 192)',
         tension: 0.1,
       },
+      {
+        label: 'Puzzles solved',
+        data: summary?.weeks.map((w) => w.counters.puzzlesSolved) ?? [],
+        fill: false,
+        borderColor: 'rgb(153, 102, 255)',
+        tension: 0.1,
+      },
     ],
   }
 
   return (
     <div className="flex flex-col min-h-screen p-8">
       <h1 className="text-4xl font-bold mb-8">Dashboard</h1>
+      {error && <p className="mb-4 text-red-600">{error}</p>}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div className="bg-white p-6 rounded-lg shadow-md">
           <h2 className="text-2xl font-semibold mb-4">Game Scores</h2>
@@ -46,6 +73,34 @@ export default function Dashboard() {
           <Line data={lineChartData} />
         </div>
       </div>
+      <div className="mt-8 bg-white p-6 rounded-lg shadow-md overflow-x-auto">
+        <h2 className="text-2xl font-semibold mb-4">Totals</h2>
+        <table className="min-w-full text-left">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2 pr-4">Game</th>
+              <th className="py-2 pr-4">Checks</th>
+              <th className="py-2 pr-4">Correct</th>
+              <th className="py-2 pr-4">Puzzles solved</th>
+              <th className="py-2 pr-4">Time spent</th>
+            </tr>
+          </thead>
+          <tbody>
+            {GAME_IDS.map((g) => {
+              const c = summary?.games[g]
+              return (
+                <tr key={g} className="border-b last:border-0">
+                  <td className="py-2 pr-4">{GAME_LABELS[g]}</td>
+                  <td className="py-2 pr-4">{c?.attempts ?? 0}</td>
+                  <td className="py-2 pr-4">{c?.correctChecks ?? 0}</td>
+                  <td className="py-2 pr-4">{c?.puzzlesSolved ?? 0}</td>
+                  <td className="py-2 pr-4">{formatMinutes(c?.timeSpentMs ?? 0)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
       <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-8">
         <Link href="/games/lattices" className="bg-blue-600 text-white p-6 rounded-lg shadow-md text-center">
           <h3 className="text-xl font-semibold">Lattice Builder</h3>
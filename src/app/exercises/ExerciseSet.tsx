@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  answerFormat,
+  generateExercises,
+  gradeExercise,
+  randomSeed,
+  type Exercise,
+  type ExerciseGrade,
+} from "@/lib/exercises";
+import { relationPairs } from "@/lib/order";
+import { reportProgress } from "@/lib/progress/client";
+
+/**
+ * The structure an exercise is about: the stated pairs of an order, or the
+ * two-row table of a permutation.
+ */
+function ExerciseStructure({ exercise }: { exercise: Exercise }) {
+  if (exercise.game === "permutations") {
+    return (
+      <table className="text-center text-sm">
+        <tbody>
+          {[exercise.elements, exercise.mapping].map((row, r) => (
+            <tr key={r}>
+              {r === 0 && (
+                <td rowSpan={2} className="pr-2 font-semibold">
+                  σ =
+                </td>
+              )}
+              {row.map((v, i) => (
+                <td
+                  key={i}
+                  className={`border px-2 py-1 ${r === 0 ? "bg-gray-100" : ""}`}
+                >
+                  {v}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+  return (
+    <p className="text-sm">
+      <span className="text-gray-600">
+        {exercise.kind === "is-transitive" ? "Relation" : "Covering pairs"} on{" "}
+        {"{"}
+        {exercise.order.map((el) => el.value).join(", ")}
+        {"}"}:{" "}
+      </span>
+      {relationPairs(exercise.order)
+        .map(([a, b]) => `${a} ≤ ${b}`)
+        .join(", ") || "(none)"}
+    </p>
+  );
+}
+
+export function ExerciseSet({ seed }: { seed: string }) {
+  const router = useRouter();
+  const [exercises] = useState(() => generateExercises(seed));
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [grades, setGrades] = useState<Record<string, ExerciseGrade>>({});
+  const [seedInput, setSeedInput] = useState(seed);
+  const [feedback, setFeedback] = useState("");
+
+  const graded = Object.values(grades);
+  const score = graded.filter((g) => g.correct).length;
+
+  // --------------------------------------------------------------------
+  // Handlers
+  // --------------------------------------------------------------------
+  const handleLoadSeed = (next: string) => {
+    const trimmed = next.trim();
+    if (!trimmed) {
+      setFeedback("Enter a seed to load its exercises.");
+      return;
+    }
+    router.push(`/exercises?seed=${encodeURIComponent(trimmed)}`);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setFeedback("Link copied: everyone who opens it gets this exact set.");
+    } catch {
+      setFeedback(`Could not copy automatically. Share the seed "${seed}".`);
+    }
+  };
+
+  /** Grade once: the answer is locked and counted towards progress. */
+  const handleSubmit = (exercise: Exercise, answer: string) => {
+    if (grades[exercise.id]) return;
+    if (!answer.trim()) return;
+    const grade = gradeExercise(exercise, answer);
+    setAnswers({ ...answers, [exercise.id]: answer });
+    setGrades({ ...grades, [exercise.id]: grade });
+    reportProgress({
+      game: exercise.game,
+      attempts: 1,
+      correctChecks: grade.correct ? 1 : 0,
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto my-8">
+      <CardHeader>
+        <CardTitle>Exercises</CardTitle>
+        <CardDescription>
+          Generated from seed <code>{seed}</code>: share it and everyone gets
+          the same questions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Seed controls */}
+        <div>
+          <Label htmlFor="seed">Seed</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="seed"
+              className="flex-1"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLoadSeed(seedInput)}
+            />
+            <Button onClick={() => handleLoadSeed(seedInput)}>Load</Button>
+            <Button variant="outline" onClick={() => handleLoadSeed(randomSeed())}>
+              New Set
+            </Button>
+            <Button variant="outline" onClick={handleCopyLink}>
+              Copy Link
+            </Button>
+          </div>
+          {feedback && (
+            <p className="mt-2 text-sm font-medium text-blue-500">{feedback}</p>
+          )}
+        </div>
+
+        <p className="font-semibold">
+          Score: {score} / {graded.length} answered ({exercises.length} total)
+        </p>
+
+        {/* Exercise list */}
+        <ol className="space-y-4">
+          {exercises.map((exercise, idx) => {
+            const format = answerFormat(exercise);
+            const grade = grades[exercise.id];
+            const answer = answers[exercise.id] ?? "";
+            return (
+              <li key={exercise.id} className="border rounded-md p-4 space-y-2">
+                <h3 className="font-semibold">
+                  {idx + 1}. {exercise.prompt}
+                </h3>
+                <ExerciseStructure exercise={exercise} />
+
+                {format.type === "choice" ? (
+                  <div className="flex gap-2">
+                    {format.options.map((option) => (
+                      <Button
+                        key={option}
+                        size="sm"
+                        variant={answer === option ? "default" : "outline"}
+                        disabled={!!grade}
+                        onClick={() => handleSubmit(exercise, option)}
+                      >
+                        {option}
+                      </Button>
+                    ))}
+                  </div>
+                ) : (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleSubmit(exercise, answer);
+                    }}
+                  >
+                    <Input
+                      className="max-w-[12rem]"
+                      inputMode={format.type === "number" ? "numeric" : undefined}
+                      placeholder={
+                        format.type === "number" ? "e.g. 6" : format.options.join(" / ")
+                      }
+                      value={answer}
+                      disabled={!!grade}
+                      onChange={(e) =>
+                        setAnswers({ ...answers, [exercise.id]: e.target.value })
+                      }
+                    />
+                    <Button size="sm" type="submit" disabled={!!grade}>
+                      Check
+                    </Button>
+                  </form>
+                )}
+
+                {grade && (
+                  <p
+                    className={`text-sm ${
+                      grade.correct ? "text-green-700" : "text-red-600"
+                    }`}
+                  >
+                    {grade.correct
+                      ? "Correct! "
+                      : `Not quite: the answer is ${grade.expected}. `}
+                    {grade.explanation}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,21 @@
+import React from "react";
+import { redirect } from "next/navigation";
+
+import { randomSeed } from "@/lib/exercises";
+import { ExerciseSet } from "./ExerciseSet";
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ seed?: string }>;
+}) {
+  const { seed } = await searchParams;
+  // Always land on a seeded URL so the set can be shared as-is
+  if (!seed) redirect(`/exercises?seed=${randomSeed()}`);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <ExerciseSet key={seed} seed={seed} />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useRef } from "react";
+import Link from "next/link";
 import ReactFlow, {
   Background,
   Controls,
@@ -11,6 +12,7 @@ import ReactFlow, {
   useEdgesState,
   Connection,
   BackgroundVariant,
+  Position,
 } from "reactflow";
 import "reactflow/dist/style.css";
 
@@ -24,62 +26,135 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ConstructionPanel } from "@/components/ConstructionPanel";
+import { PresetGallery } from "@/components/PresetGallery";
+import { DraftNotice } from "@/components/DraftNotice";
+import { PuzzlePanel } from "@/components/PuzzlePanel";
+import { StructureFileButtons } from "@/components/StructureFileButtons";
+import { useFreePlayDraft } from "@/hooks/use-free-play-draft";
+import { useGameProgress } from "@/hooks/use-game-progress";
+import { useHistory } from "@/hooks/use-history";
+import {
+  analyzeComplements,
+  bottomCandidates,
+  checkDistributive,
+  checkLattice,
+  checkModular,
+  checkSublattice,
+  describeBoundFailure,
+  describeInputError,
+  findElement,
+  hasRelation,
+  hasseLayout,
+  isSameStructure,
+  join,
+  meet,
+  parseLabelList,
+  parseRelationInput,
+  rankRows,
+  topCandidates,
+  transitiveReduction,
+  withoutElements,
+  withoutPairs,
+  type ComplementReport,
+  type IdentityCheck,
+  type OrderElement,
+  type OrderPair,
+} from "@/lib/order";
+import {
+  evaluateOrderPuzzle,
+  latticePuzzles,
+  type PuzzleEvaluation,
+} from "@/lib/puzzles";
+import {
+  decodeOrderStructure,
+  encodeStructure,
+  orderDocument,
+  parseOrderDocument,
+  stringifyDocument,
+  structureUrl,
+} from "@/lib/serialization";
 
 // --------------------------------------------------
 // Types & Initial Data
 // --------------------------------------------------
-type LatticeElement = {
-  value: string;
-  connections: string[]; // who this element points to ("above" in partial order)
-  x?: number; // optional coords for visualization
-  y?: number; // optional coords for visualization
-};
+// relations: who this element points to ("above" in partial order)
+type LatticeElement = OrderElement;
+
+/** What undo and redo restore: the lattice and whether the Hasse view is on. */
+type LatticeSnapshot = { lattice: LatticeElement[]; hasse: boolean };
 
 // Some initial lattice
 const initialLattice: LatticeElement[] = [
-  { value: "A", connections: ["B", "C"], x: 100, y: 100 },
-  { value: "B", connections: ["D"], x: 100, y: 250 },
-  { value: "C", connections: ["D"], x: 250, y: 250 },
-  { value: "D", connections: [], x: 180, y: 400 },
+  { value: "A", relations: ["B", "C"], x: 100, y: 100 },
+  { value: "B", relations: ["D"], x: 100, y: 250 },
+  { value: "C", relations: ["D"], x: 250, y: 250 },
+  { value: "D", relations: [], x: 180, y: 400 },
 ];
 
-// Example puzzle data
-const puzzleLattice: LatticeElement[] = [
-  { value: "P", connections: ["Q"], x: 100, y: 100 },
-  { value: "Q", connections: ["R"], x: 100, y: 250 },
-  { value: "R", connections: [], x: 100, y: 400 },
-];
+// Grid size used when snap-to-grid is on
+const GRID_SIZE = 20;
 
 /**
  * Utility function to convert your LatticeElement[] into
  * React Flow nodes & edges for visualization.
+ * Elements listed in `highlighted` (e.g. an N5/M3 witness) are drawn in amber,
+ * together with the edges running between them.
+ * Nodes sit at the stored `x`/`y`; elements without a position fall back to
+ * the Hasse layout.
+ * With `hasse` on, only covering edges are drawn (loops and edges implied by
+ * transitivity are hidden), and every node sits on its current rank row at its
+ * stored `x`, so edits that change ranks move nodes onto the right row.
  */
-function buildReactFlowGraph(lattice: LatticeElement[]) {
+function buildReactFlowGraph(
+  lattice: LatticeElement[],
+  highlighted: string[] = [],
+  hasse = false
+) {
+  const layout =
+    hasse || lattice.some((el) => el.x === undefined || el.y === undefined)
+      ? hasseLayout(lattice)
+      : null;
+  const drawn = hasse ? transitiveReduction(lattice) : lattice;
+
   // Create nodes
   const nodes: Node[] = lattice.map((el) => ({
     id: el.value,
-    position: { x: el.x ?? Math.random() * 300, y: el.y ?? Math.random() * 300 },
+    position: hasse
+      ? { x: el.x ?? layout![el.value].x, y: layout![el.value].y }
+      : el.x !== undefined && el.y !== undefined
+        ? { x: el.x, y: el.y }
+        : layout![el.value],
+    // Lower elements sit below in a Hasse diagram, so edges leave upwards
+    ...(hasse
+      ? { sourcePosition: Position.Top, targetPosition: Position.Bottom }
+      : {}),
     data: { label: el.value },
     // Basic styling
     style: {
-      border: "1px solid #999",
+      border: highlighted.includes(el.value)
+        ? "2px solid #f59e0b"
+        : "1px solid #999",
       padding: 10,
       borderRadius: 8,
-      background: "white",
+      background: highlighted.includes(el.value) ? "#fef3c7" : "white",
       fontWeight: 600,
     },
   }));
 
   // Create edges
   const edges: Edge[] = [];
-  lattice.forEach((el) => {
-    el.connections.forEach((conn) => {
+  drawn.forEach((el) => {
+    el.relations.forEach((conn) => {
       edges.push({
-        id: el.value + "-" + conn,
+        id: JSON.stringify([el.value, conn]),
         source: el.value,
         target: conn,
         // We'll place the edge label (optional)
         label: `${el.value} → ${conn}`,
+        ...(highlighted.includes(el.value) && highlighted.includes(conn)
+          ? { animated: true, style: { stroke: "#f59e0b", strokeWidth: 2 } }
+          : {}),
       });
     });
   });
@@ -87,320 +162,552 @@ function buildReactFlowGraph(lattice: LatticeElement[]) {
   return { nodes, edges };
 }
 
-export function LatticeGame() {
-  const [lattice, setLattice] = useState<LatticeElement[]>(initialLattice);
+/**
+ * With a `puzzleId` from the lattice catalog the game starts from that puzzle
+ * and shows its goals; otherwise it opens the free-play example. A
+ * `sharedState` from a copied link replaces the starting structure.
+ */
+export function LatticeGame({
+  puzzleId,
+  sharedState,
+}: {
+  puzzleId?: string;
+  sharedState?: string;
+}) {
+  const puzzle = latticePuzzles.find((p) => p.id === puzzleId);
+  const [shared] = useState(() =>
+    sharedState ? decodeOrderStructure(sharedState) : null
+  );
+  const [lattice, setLattice] = useState<LatticeElement[]>(
+    shared?.ok ? shared.document.elements : puzzle?.start ?? initialLattice
+  );
   const [newElement, setNewElement] = useState("");
   const [newConnection, setNewConnection] = useState("");
-  const [feedback, setFeedback] = useState("");
-
+  const [boundsQuery, setBoundsQuery] = useState("");
+  const [sublatticeQuery, setSublatticeQuery] = useState("");
+  const [feedback, setFeedback] = useState(
+    shared && !shared.ok ? `Could not open the shared link: ${shared.error}` : ""
+  );
+  const [identityResult, setIdentityResult] = useState<IdentityCheck | null>(
+    null
+  );
+  const [complementReport, setComplementReport] =
+    useState<ComplementReport | null>(null);
+  const [hasse, setHasse] = useState(false);
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  const [alignRows, setAlignRows] = useState(false);
+  const [puzzleEvaluation, setPuzzleEvaluation] =
+    useState<PuzzleEvaluation | null>(null);
+  const { recordCheck, recordPuzzleSolved } = useGameProgress("lattices");
 
   // For ReactFlow
   const { nodes: initialNodes, edges: initialEdges } = buildReactFlowGraph(
-    initialLattice
+    lattice
   );
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
-  // --------------------------------------------------
-  // Handlers
-  // --------------------------------------------------
-  const handleAddElement = () => {
-    const trimmed = newElement.trim();
-    if (!trimmed) return;
-    // Check if element already exists
-    if (lattice.some((el) => el.value === trimmed)) {
-      setFeedback("Invalid element or element already exists.");
-      return;
-    }
+  const rebuildGraph = (
+    updatedLattice: LatticeElement[],
+    highlighted: string[] = [],
+    useHasse = hasse
+  ) => {
+    const { nodes: newNodes, edges: newEdges } = buildReactFlowGraph(
+      updatedLattice,
+      highlighted,
+      useHasse
+    );
+    setNodes(newNodes);
+    setEdges(newEdges);
+    if (!highlighted.length) setIdentityResult(null);
+    setComplementReport(null);
+    if (!isSameStructure(updatedLattice, lattice)) setPuzzleEvaluation(null);
+  };
 
-    // Add the new element
-    const newLatElem: LatticeElement = {
-      value: trimmed,
-      connections: [],
-      x: Math.random() * 400 + 100, // random coords
-      y: Math.random() * 300 + 100,
-    };
-    const updatedLattice = [...lattice, newLatElem];
+  // Undo and redo restore the Hasse view together with the lattice
+  const history = useHistory<LatticeSnapshot>((restored, message) => {
+    setLattice(restored.lattice);
+    setHasse(restored.hasse);
+    rebuildGraph(restored.lattice, [], restored.hasse);
+    setFeedback(message);
+  });
 
-    // Update local states
+  // Replace the lattice as one undoable step and redraw it
+  const commitLattice = (label: string, updatedLattice: LatticeElement[]) => {
+    history.record(label, { lattice, hasse }, { lattice: updatedLattice, hasse });
     setLattice(updatedLattice);
-    setNewElement("");
-    setFeedback("Element added successfully!");
+    setIdentityResult(null);
+    rebuildGraph(updatedLattice);
+  };
 
-    // Update ReactFlow
-    const { nodes: newNodes, edges: newEdges } = buildReactFlowGraph(
-      updatedLattice
+  // --------------------------------------------------
+  // Handlers
+  // --------------------------------------------------
+  // Turning the Hasse view on also lays the lattice out by rank; turning it
+  // off keeps the positions. Either way it is one undoable step
+  const handleToggleHasse = () => {
+    const layout = hasseLayout(lattice);
+    const updatedLattice = hasse
+      ? lattice
+      : lattice.map((el) => ({ ...el, ...layout[el.value] }));
+    history.record(
+      hasse ? "Hasse view off" : "Hasse layout",
+      { lattice, hasse },
+      { lattice: updatedLattice, hasse: !hasse }
     );
-    setNodes(newNodes);
-    setEdges(newEdges);
+    setHasse(!hasse);
+    setLattice(updatedLattice);
+    rebuildGraph(updatedLattice, identityResult?.witness?.elements ?? [], !hasse);
   };
 
-  const handleAddConnection = () => {
-    const trimmed = newConnection.trim();
-    const [from, to] = trimmed.split("-");
-    if (!from || !to || from === to) {
-      setFeedback('Invalid connection format. Use "A-B" to connect A to B.');
+  // Write dragged positions back into the lattice so edits, export and shared
+  // links keep them; with row alignment or the Hasse view on, nodes drop onto
+  // their rank's row
+  const handleNodeDragStop = (
+    _event: React.MouseEvent,
+    _node: Node,
+    dragged: Node[]
+  ) => {
+    const rows = alignRows || hasse ? rankRows(lattice) : null;
+    const moved = new Map(
+      dragged.map((n) => [
+        n.id,
+        { x: n.position.x, y: rows?.[n.id] ?? n.position.y },
+      ])
+    );
+    const updatedLattice = lattice.map((el) => {
+      const position = moved.get(el.value);
+      return position ? { ...el, ...position } : el;
+    });
+    if (
+      updatedLattice.every(
+        (el, i) => el.x === lattice[i].x && el.y === lattice[i].y
+      )
+    ) {
       return;
     }
+    history.record(
+      `move ${[...moved.keys()].join(", ")}`,
+      { lattice, hasse },
+      { lattice: updatedLattice, hasse }
+    );
+    setLattice(updatedLattice);
+    if (rows) {
+      setNodes((nds) =>
+        nds.map((n) => {
+          const position = moved.get(n.id);
+          return position ? { ...n, position } : n;
+        })
+      );
+    }
+  };
 
-    // Check if 'from' and 'to' exist
-    if (!lattice.some((el) => el.value === from)) {
-      setFeedback(`Element "${from}" does not exist.`);
+  /**
+   * Read the connection input, reporting a parse error or the first label
+   * that is not an element. Returns null when the input was rejected.
+   */
+  const readConnectionInput = (): OrderPair[] | null => {
+    const text = newConnection.trim();
+    const result = parseRelationInput(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return null;
+    }
+    const unknown = result.labels.find((l) => !findElement(lattice, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
+      );
+      return null;
+    }
+    return result.pairs;
+  };
+
+  const handleAddElement = () => {
+    const text = newElement.trim();
+    if (!text) return;
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
       return;
     }
-    if (!lattice.some((el) => el.value === to)) {
-      setFeedback(`Element "${to}" does not exist.`);
+    // Check if element already exists
+    const existing = result.labels.find((l) => findElement(lattice, l.text));
+    if (existing) {
+      setFeedback(
+        describeInputError(text, `Element "${existing.text}" already exists.`, existing.position)
+      );
       return;
     }
 
+    // Add the new elements
+    const values = result.labels.map((l) => l.text);
+    // In the Hasse view new elements stay unplaced, so the Hasse layout puts
+    // them on their rank row
+    const newLatElems: LatticeElement[] = values.map((value) => ({
+      value,
+      relations: [],
+      ...(hasse
+        ? {}
+        : { x: Math.random() * 400 + 100, y: Math.random() * 300 + 100 }),
+    }));
+    const list = values.map((v) => `"${v}"`).join(", ");
+    commitLattice(
+      `add element${values.length > 1 ? "s" : ""} ${list}`,
+      [...lattice, ...newLatElems]
+    );
+    setNewElement("");
+    setFeedback(values.length > 1 ? "Elements added successfully!" : "Element added successfully!");
+  };
+
+  const handleAddConnection = () => {
+    const pairs = readConnectionInput();
+    if (!pairs) return;
+
     // Update connections in lattice
     const updatedLattice = lattice.map((el) => {
-      if (el.value === from) {
-        // Add to connections if not already in
-        if (!el.connections.includes(to)) {
-          return { ...el, connections: [...el.connections, to] };
-        }
-      }
-      return el;
+      const added = pairs
+        .filter(([a, b]) => a === el.value && !el.relations.includes(b))
+        .map(([, b]) => b);
+      return added.length
+        ? { ...el, relations: [...new Set([...el.relations, ...added])] }
+        : el;
     });
 
-    setLattice(updatedLattice);
+    const list = pairs.map(([a, b]) => `${a} → ${b}`).join(", ");
+    commitLattice(`connect ${list}`, updatedLattice);
     setNewConnection("");
-    setFeedback("Connection added successfully!");
-
-    // Update ReactFlow
-    const { nodes: newNodes, edges: newEdges } = buildReactFlowGraph(
-      updatedLattice
+    setFeedback(
+      pairs.length > 1 ? "Connections added successfully!" : "Connection added successfully!"
     );
-    setNodes(newNodes);
-    setEdges(newEdges);
   };
 
   /**
    * Check if every pair of elements has a unique supremum and infimum.
-   * This is a simplified approach.
    */
   const handleCheckBasicLattice = () => {
-    for (let i = 0; i < lattice.length; i++) {
-      for (let j = i + 1; j < lattice.length; j++) {
-        const a = lattice[i].value;
-        const b = lattice[j].value;
-        const sup = findSupremum(a, b, lattice);
-        const inf = findInfimum(a, b, lattice);
-        if (!sup || !inf) {
-          setFeedback(
-            `Not a lattice: missing supremum or infimum for pair (${a}, ${b}).`
-          );
-          return;
-        }
-      }
+    const latticeInfo = checkLattice(lattice);
+    recordCheck(latticeInfo.isValid);
+    if (!latticeInfo.isValid) {
+      setFeedback(`Not a lattice: ${latticeInfo.reason}`);
+      return;
     }
-    setFeedback("Congratulations! This is a valid lattice (basic check).");
+    setFeedback("Congratulations! This is a valid lattice.");
   };
 
   /**
-   * A simplistic approach to finding the supremum in a directed adjacency list:
-   * We look for a candidate node that points (directly or indirectly) to both a and b.
-   * In a typical Hasse diagram or adjacency representation, you'd want to check:
-   *  - Which nodes are 'above' both a and b
-   *  - Among those, which is minimal
-   * This code is *highly simplified* and might not handle more complex partial orders.
+   * Compute a ∨ b and a ∧ b for the pair typed as "A,B".
    */
-  function findSupremum(a: string, b: string, lat: LatticeElement[]): string | null {
-    // For now, let's check "who has edges to a and b" in some naive sense
-    // Actually we want to see who is "above" them. This might be reversed in an adjacency list,
-    // depending on how you define "connections."
-
-    // A naive approach: A node X is "above" A if there's a path from A to X.
-    // But your connections look reversed (A -> B means B is "above" A).
-    // We'll do a direct check of nodes that appear in both "connections" sets for A & B.
-    // This is a big simplification: you’d want transitive closures to do this thoroughly.
-
-    // We'll compute the sets of all ancestors of a and b, then see their intersection.
-    const aAncestors = new Set([a, ...getAllAbove(a, lat)]);
-    const bAncestors = new Set([b, ...getAllAbove(b, lat)]);
-    // The supremum is any node that is in bAncestors and aAncestors
-    const intersection = [...aAncestors].filter((x) => bAncestors.has(x));
-
-    // Typically, the supremum is the minimal such "common ancestor."
-    // We'll just return the first for demonstration.
-    if (intersection.length > 0) {
-      return intersection[0];
-    } else {
-      return null;
-    }
-  }
-
-  function findInfimum(a: string, b: string, lat: LatticeElement[]): string | null {
-    // Similarly, we want the greatest common "descendant."
-    // We'll gather all descendants of A and B, intersect them, and pick something.
-    const aDesc = new Set([a, ...getAllBelow(a, lat)]);
-    const bDesc = new Set([b, ...getAllBelow(b, lat)]);
-
-    const intersection = [...aDesc].filter((x) => bDesc.has(x));
-    if (intersection.length > 0) {
-      return intersection[0];
-    } else {
-      return null;
+  const handleComputeJoinMeet = () => {
+    const text = boundsQuery.trim();
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return;
     }
-  }
-
-  /**
-   * Returns all nodes that are "above" the given node (reachable by following the adjacency).
-   * Because your adjacency is "this node → nodes above it", we do the inverse in BFS.
-   */
-  function getAllAbove(target: string, lat: LatticeElement[]): string[] {
-    // We want: If X.connections.includes(Y), then Y is "above" X.
-    // So to see who is above target, we look for "X" such that target in X.connections
-    // recursively. We'll do BFS or DFS.
-    const above: string[] = [];
-    const queue: string[] = [target];
-
-    while (queue.length) {
-      const current = queue.shift()!;
-      // Find all X that have current in X.connections
-      lat.forEach((el) => {
-        if (el.connections.includes(current) && !above.includes(el.value)) {
-          above.push(el.value);
-          queue.push(el.value);
-        }
-      });
+    if (result.labels.length !== 2) {
+      setFeedback('Invalid pair format. Use "A,B" to compute A ∨ B and A ∧ B.');
+      return;
     }
-    return above;
-  }
-
-  /**
-   * Returns all nodes that are "below" the given node. 
-   * In adjacency terms, target → X means X is "above" target, so we do BFS from target.
-   */
-  function getAllBelow(target: string, lat: LatticeElement[]): string[] {
-    const below: string[] = [];
-    const queue: string[] = [target];
-
-    while (queue.length) {
-      const current = queue.shift()!;
-      // For the current element, every item in current.connections is "above",
-      // so we push them into below? Actually, no. The "below" is the other direction.
-      // But let's keep consistent with the existing definition:
-      // If current → next, then next is "above" current. We want the children in BFS to find all below?
-      // Actually, we do the BFS in the forward direction but collect visited.
-      const found = lat.find((el) => el.value === current);
-      if (found) {
-        found.connections.forEach((connVal) => {
-          // connVal is "above" current, so "current" is below connVal. We want the reverse BFS.
-          // Let's do a simpler approach: We'll do the BFS in reverse adjacency again.
-          // So we can skip implementing below if we are sure we won't need it for the simplified checks.
-
-          // For demonstration, let's do forward BFS to see all that are reachable from current
-          // as "above," meaning current is below them.
-          if (!below.includes(connVal)) {
-            below.push(connVal);
-            queue.push(connVal);
-          }
-        });
-      }
+    const unknown = result.labels.find((l) => !findElement(lattice, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
+      );
+      return;
     }
-    return below;
-  }
+    const [a, b] = result.labels.map((l) => l.text);
+    const sup = join(lattice, a, b);
+    const inf = meet(lattice, a, b);
+    const supText = sup.ok
+      ? `${a} ∨ ${b} = ${sup.value}`
+      : `${a} ∨ ${b} does not exist: ${describeBoundFailure(sup, a, b, "join")}`;
+    const infText = inf.ok
+      ? `${a} ∧ ${b} = ${inf.value}`
+      : `${a} ∧ ${b} does not exist: ${describeBoundFailure(inf, a, b, "meet")}`;
+    setFeedback(`${supText}\n${infText}`);
+  };
 
   // Check for Bounded Lattice
   const handleCheckBounded = () => {
     // In a bounded lattice, there should be a global minimum (bottom) and a global maximum (top).
-    // "Bottom" is an element from which we can reach all others, 
-    // "Top" is an element which can be reached from all others.
-    const bottomCandidates: string[] = [];
-    const topCandidates: string[] = [];
-
-    lattice.forEach((el) => {
-      // To check if "el" might be bottom: from "el" we can reach all others (directly or indirectly).
-      const reachable = new Set(getAllBelow(el.value, lattice));
-      // Also include el itself
-      reachable.add(el.value);
-      if (reachable.size === lattice.length) {
-        bottomCandidates.push(el.value);
-      }
-
-      // For top: from each other node, check if they can reach "el"
-      // In other words, "el" is in getAllBelow(...some other node...)
-      // We'll invert the logic: "el" is top if it's 'above' every other node
-      let isTopForAll = true;
-      for (const other of lattice) {
-        if (other.value === el.value) continue;
-        const othersBelow = new Set([other.value, ...getAllBelow(other.value, lattice)]);
-        if (!othersBelow.has(el.value)) {
-          isTopForAll = false;
-          break;
-        }
-      }
-      if (isTopForAll) {
-        topCandidates.push(el.value);
-      }
-    });
+    const bottoms = bottomCandidates(lattice);
+    const tops = topCandidates(lattice);
+    recordCheck(bottoms.length === 1 && tops.length === 1);
 
-    if (bottomCandidates.length === 1 && topCandidates.length === 1) {
+    if (bottoms.length === 1 && tops.length === 1) {
       setFeedback(
-        `Bounded Lattice Found! \nBottom: ${bottomCandidates[0]}, Top: ${topCandidates[0]}`
+        `Bounded Lattice Found! \nBottom: ${bottoms[0]}, Top: ${tops[0]}`
       );
-    } else if (bottomCandidates.length === 0 || topCandidates.length === 0) {
+    } else if (bottoms.length === 0 || tops.length === 0) {
       setFeedback("Not bounded: No global minimum or maximum found.");
     } else {
       setFeedback(
-        `Not bounded or ambiguous: multiple bottoms (${bottomCandidates.join(
+        `Not bounded or ambiguous: multiple bottoms (${bottoms.join(
           ", "
-        )}) or tops (${topCandidates.join(", ")}).`
+        )}) or tops (${tops.join(", ")}).`
       );
     }
   };
 
-  // A naive Distributivity check (STUB)
+  // Complemented / Boolean analysis (builds on the bounded check)
+  const handleCheckComplemented = () => {
+    const report = analyzeComplements(lattice);
+    rebuildGraph(lattice);
+    setComplementReport(report);
+    recordCheck(report.isComplemented);
+    if (!report.isBounded) {
+      setFeedback(report.reason);
+    } else if (report.isBoolean) {
+      setFeedback(
+        `Boolean lattice! It is isomorphic to the power set of its ${report.atoms.length} atom(s).`
+      );
+    } else if (report.isUniquelyComplemented) {
+      setFeedback(`Uniquely complemented. ${report.reason}`);
+    } else if (report.isComplemented) {
+      setFeedback(`Complemented, but some elements have several complements. ${report.reason}`);
+    } else {
+      setFeedback(report.reason);
+    }
+  };
+
+  /**
+   * Show the result of a distributive/modular check and, on failure,
+   * highlight the embedded N5 or M3 on the canvas.
+   */
+  const showIdentityResult = (name: string, result: IdentityCheck) => {
+    recordCheck(result.holds);
+    if (result.holds) {
+      rebuildGraph(lattice);
+      setFeedback(`This lattice is ${name}.`);
+      return;
+    }
+    rebuildGraph(lattice, result.witness?.elements ?? []);
+    setIdentityResult(result);
+    setFeedback(`Not ${name}: ${result.reason}`);
+  };
+
   const handleCheckDistributive = () => {
-    // We'll do a partial check. Real check requires verifying:
-    //  (x ∧ (y ∨ z)) = ((x ∧ y) ∨ (x ∧ z)), etc.
-    // This is quite involved with an adjacency approach, so we'll do a placeholder:
-    setFeedback("Distributivity check is not fully implemented yet!");
+    showIdentityResult("distributive", checkDistributive(lattice));
+  };
+
+  const handleCheckModular = () => {
+    showIdentityResult("modular", checkModular(lattice));
+  };
+
+  // Grade the active puzzle against its goals
+  const handleCheckPuzzle = () => {
+    if (!puzzle) return;
+    const evaluation = evaluateOrderPuzzle(puzzle, lattice);
+    setPuzzleEvaluation(evaluation);
+    recordCheck(evaluation.solved);
+    if (!evaluation.solved) {
+      setFeedback("Not there yet: some goals are still unmet.");
+      return;
+    }
+    recordPuzzleSolved(puzzle.id, evaluation.edits);
+    setFeedback(
+      evaluation.edits <= puzzle.par
+        ? `Puzzle solved in ${evaluation.edits} edit(s), at or under par ${puzzle.par}!`
+        : `Puzzle solved in ${evaluation.edits} edit(s). Par is ${puzzle.par}, try again for a tighter solution.`
+    );
+  };
+
+  const handleRestartPuzzle = () => {
+    if (!puzzle) return;
+    commitLattice("restart puzzle", puzzle.start);
+    setFeedback("Puzzle restarted.");
+  };
+
+  // --------------------------------------------------
+  // Import / Export
+  // --------------------------------------------------
+  const currentDocument = () => orderDocument("lattice", lattice);
+
+  // Free play is saved for the session so opening a puzzle does not lose it
+  const freePlayDraft = useFreePlayDraft("lattices", encodeStructure(currentDocument()), {
+    saving: !puzzle,
+    offer: !puzzle && !sharedState,
+  });
+
+  const handleRestoreDraft = () => {
+    const result = freePlayDraft.draft && decodeOrderStructure(freePlayDraft.draft);
+    freePlayDraft.dismiss();
+    if (!result || !result.ok) return;
+    commitLattice("restore free play", result.document.elements);
+    setFeedback("Restored your free-play structure.");
+  };
+
+  const handleExport = () => stringifyDocument(currentDocument());
+
+  const handleCopyLink = async () => {
+    const url = structureUrl(
+      window.location.origin + window.location.pathname,
+      currentDocument(),
+      { puzzle: puzzle?.id }
+    );
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedback("Link copied! It opens this exact diagram.");
+    } catch {
+      setFeedback(`Copy this link to share the diagram:\n${url}`);
+    }
   };
 
-  // Load puzzle challenge
-  const handleLoadPuzzle = () => {
-    // Replace with puzzle data
-    setLattice(puzzleLattice);
-    const { nodes: puzzleNodes, edges: puzzleEdges } =
-      buildReactFlowGraph(puzzleLattice);
-    setNodes(puzzleNodes);
-    setEdges(puzzleEdges);
+  const handleImport = (text: string) => {
+    const result = parseOrderDocument(text);
+    if (!result.ok) {
+      setFeedback(`Could not load the file: ${result.error}`);
+      return;
+    }
+    const loaded = result.document.elements;
+    commitLattice("load file", loaded);
+    setFeedback(`Loaded ${loaded.length} element(s) from the file.`);
+  };
 
-    setFeedback("Puzzle loaded! Try to make it a lattice or add connections.");
+  // Presets and constructions arrive as covering pairs laid out by rank;
+  // show them as a Hasse diagram
+  const handleOpenStructure = (order: LatticeElement[], title: string) => {
+    history.record(`open ${title}`, { lattice, hasse }, { lattice: order, hasse: true });
+    setLattice(order);
+    setHasse(true);
+    rebuildGraph(order, [], true);
+    setFeedback(`Opened ${title}: ${order.length} element(s).`);
+  };
+
+  /**
+   * Check that the typed subset is closed under joins and meets, marking the
+   * offending pair and its bound on failure.
+   */
+  const handleCheckSublattice = () => {
+    const text = sublatticeQuery.trim();
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return;
+    }
+    const unknown = result.labels.find((l) => !findElement(lattice, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
+      );
+      return;
+    }
+    const subset = result.labels.map((l) => l.text);
+    const check = checkSublattice(lattice, subset);
+    recordCheck(check.isValid);
+    // The sublattice highlight replaces any N5/M3 witness
+    setIdentityResult(null);
+    rebuildGraph(lattice, check.isValid ? subset : check.witness ?? []);
+    setFeedback(
+      check.isValid
+        ? `{${subset.join(", ")}} is a sublattice: it is closed under ∨ and ∧.`
+        : `Not a sublattice: ${check.reason}`
+    );
   };
 
   // React Flow callback to handle edges added by user dragging 
   // (If you allow users to add edges visually)
-  const onConnect = useCallback(
-    (connection: Connection) => {
-      if (!connection.source || !connection.target) return;
-      const { source, target } = connection;
-
-      // Update the underlying lattice
-      const updatedLattice = lattice.map((el) => {
-        if (el.value === source) {
-          if (!el.connections.includes(target)) {
-            return { ...el, connections: [...el.connections, target] };
-          }
+  const onConnect = (connection: Connection) => {
+    if (!connection.source || !connection.target) return;
+    const { source, target } = connection;
+
+    // Update the underlying lattice
+    const updatedLattice = lattice.map((el) => {
+      if (el.value === source) {
+        if (!el.relations.includes(target)) {
+          return { ...el, relations: [...el.relations, target] };
         }
-        return el;
-      });
+      }
+      return el;
+    });
 
-      setLattice(updatedLattice);
+    commitLattice(`connect ${source} → ${target}`, updatedLattice);
+  };
 
-      // Rebuild for React Flow
-      const { nodes: newNodes, edges: newEdges } = buildReactFlowGraph(
-        updatedLattice
+  // --------------------------------------------------
+  // Removing elements & connections
+  // --------------------------------------------------
+  const handleRemoveElement = () => {
+    const text = newElement.trim();
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return;
+    }
+    const unknown = result.labels.find((l) => !findElement(lattice, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
       );
-      setNodes(newNodes);
-      setEdges(newEdges);
-    },
-    [lattice, setLattice, setNodes, setEdges]
+      return;
+    }
+    const values = result.labels.map((l) => l.text);
+    const list = values.map((v) => `"${v}"`).join(", ");
+    commitLattice(
+      `remove element${values.length > 1 ? "s" : ""} ${list}`,
+      withoutElements(lattice, values)
+    );
+    setNewElement("");
+    setFeedback(`Element${values.length > 1 ? "s" : ""} ${list} and all of their connections removed.`);
+  };
+
+  const handleRemoveConnection = () => {
+    const pairs = readConnectionInput();
+    if (!pairs) return;
+    const missing = pairs.find(([a, b]) => !hasRelation(lattice, a, b));
+    if (missing) {
+      setFeedback(`There is no connection ${missing[0]} → ${missing[1]}.`);
+      return;
+    }
+    const list = pairs.map(([a, b]) => `${a} → ${b}`).join(", ");
+    commitLattice(`disconnect ${list}`, withoutPairs(lattice, pairs));
+    setNewConnection("");
+    setFeedback(`Connection${pairs.length > 1 ? "s" : ""} ${list} removed.`);
+  };
+
+
+  // Apply a canvas deletion; nodes take their connections with them
+  const deleteFromCanvas = (ids: string[], pairs: OrderPair[]) => {
+    const stated = pairs.filter(
+      ([a, b]) => hasRelation(lattice, a, b) && !ids.includes(a) && !ids.includes(b)
+    );
+    // React Flow has already dropped the edge; draw it again
+    if (!ids.length && !stated.length) {
+      rebuildGraph(lattice, identityResult?.witness?.elements ?? []);
+      return;
+    }
+    const removed = [
+      ...ids.map((id) => `"${id}"`),
+      ...stated.map(([a, b]) => `${a} → ${b}`),
+    ].join(", ");
+    commitLattice(
+      `delete ${removed}`,
+      withoutElements(withoutPairs(lattice, stated), ids)
+    );
+    setFeedback(`Deleted ${removed}.`);
+  };
+
+  // React Flow reports the edges and nodes removed by one key press in two
+  // separate callbacks; collect both and apply them as a single step
+  const pendingDeletion = useRef<{ ids: string[]; pairs: OrderPair[] } | null>(
+    null
   );
+  const queueDeletion = (ids: string[], removedEdges: Edge[]) => {
+    if (!pendingDeletion.current) {
+      const pending = { ids: [] as string[], pairs: [] as OrderPair[] };
+      pendingDeletion.current = pending;
+      queueMicrotask(() => {
+        pendingDeletion.current = null;
+        deleteFromCanvas(pending.ids, pending.pairs);
+      });
+    }
+    pendingDeletion.current.ids.push(...ids);
+    pendingDeletion.current.pairs.push(
+      ...removedEdges.map((e): OrderPair => [e.source, e.target])
+    );
+  };
 
   return (
     <Card className="w-full max-w-5xl mx-auto my-8">
@@ -411,43 +718,141 @@ export function LatticeGame() {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {freePlayDraft.draft && (
+          <div className="mb-4">
+            <DraftNotice
+              onRestore={handleRestoreDraft}
+              onDismiss={freePlayDraft.dismiss}
+            />
+          </div>
+        )}
+        {puzzle && (
+          <div className="mb-6">
+            <PuzzlePanel
+              puzzle={puzzle}
+              evaluation={puzzleEvaluation}
+              onCheck={handleCheckPuzzle}
+              onRestart={handleRestartPuzzle}
+            />
+          </div>
+        )}
         {/* Top Controls */}
         <div className="space-y-4 mb-6">
           <div>
-            <Label htmlFor="newElement">Add Element</Label>
+            <Label htmlFor="newElement">Add or Remove Element</Label>
             <div className="flex space-x-2">
               <Input
                 id="newElement"
                 value={newElement}
                 onChange={(e) => setNewElement(e.target.value)}
-                placeholder="New element"
+                placeholder="a, b or {1, 2, 3}"
               />
               <Button onClick={handleAddElement}>Add</Button>
+              <Button variant="outline" onClick={handleRemoveElement}>
+                Remove
+              </Button>
             </div>
           </div>
           <div>
-            <Label htmlFor="newConnection">Add Connection</Label>
+            <Label htmlFor="newConnection">Add or Remove Connection</Label>
             <div className="flex space-x-2">
               <Input
                 id="newConnection"
                 value={newConnection}
                 onChange={(e) => setNewConnection(e.target.value)}
-                placeholder="A-B"
+                placeholder="a -> b, b < c"
               />
               <Button onClick={handleAddConnection}>Connect</Button>
+              <Button variant="outline" onClick={handleRemoveConnection}>
+                Disconnect
+              </Button>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="boundsQuery">Join &amp; Meet</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="boundsQuery"
+                value={boundsQuery}
+                onChange={(e) => setBoundsQuery(e.target.value)}
+                placeholder="A,B"
+              />
+              <Button onClick={handleComputeJoinMeet}>Compute</Button>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="sublatticeQuery">Sublattice Check</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="sublatticeQuery"
+                value={sublatticeQuery}
+                onChange={(e) => setSublatticeQuery(e.target.value)}
+                placeholder="{0, a, 1}"
+              />
+              <Button onClick={handleCheckSublattice}>Check</Button>
             </div>
           </div>
 
+          <PresetGallery onLoad={handleOpenStructure} />
+          <ConstructionPanel current={lattice} onOpen={handleOpenStructure} />
+
           {/* Buttons for checks */}
           <div className="flex flex-wrap gap-2">
             <Button onClick={handleCheckBasicLattice}>
               Check Basic Lattice
             </Button>
             <Button onClick={handleCheckBounded}>Check Bounded</Button>
+            <Button onClick={handleCheckComplemented}>
+              Check Complemented / Boolean
+            </Button>
             <Button onClick={handleCheckDistributive}>Check Distributivity</Button>
-            <Button variant="outline" onClick={handleLoadPuzzle}>
-              Load Puzzle Challenge
+            <Button onClick={handleCheckModular}>Check Modularity</Button>
+            <Button variant="outline" asChild>
+              <Link href="/puzzles">Puzzle Challenges</Link>
             </Button>
+            <Button
+              variant={hasse ? "default" : "outline"}
+              onClick={handleToggleHasse}
+            >
+              Hasse Layout: {hasse ? "On" : "Off"}
+            </Button>
+            <Button
+              variant={snapToGrid ? "default" : "outline"}
+              onClick={() => setSnapToGrid(!snapToGrid)}
+            >
+              Snap to Grid: {snapToGrid ? "On" : "Off"}
+            </Button>
+            <Button
+              variant={alignRows ? "default" : "outline"}
+              onClick={() => setAlignRows(!alignRows)}
+            >
+              Align to Rank Rows: {alignRows ? "On" : "Off"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title={history.undoLabel && `Undo ${history.undoLabel} (Ctrl+Z)`}
+            >
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title={history.redoLabel && `Redo ${history.redoLabel} (Ctrl+Y)`}
+            >
+              Redo
+            </Button>
+            <Button variant="outline" onClick={handleCopyLink}>
+              Copy Link
+            </Button>
+            <StructureFileButtons
+              fileName="lattice.json"
+              getContents={handleExport}
+              onLoad={handleImport}
+              onError={(error) => setFeedback(`Could not load the file: ${error}`)}
+            />
           </div>
         </div>
 
@@ -461,11 +866,23 @@ export function LatticeGame() {
               onNodesChange={onNodesChange}
               onEdgesChange={onEdgesChange}
               onConnect={onConnect}
+              onNodesDelete={(deleted) =>
+                queueDeletion(deleted.map((n) => n.id), [])
+              }
+              onEdgesDelete={(deleted) => queueDeletion([], deleted)}
+              deleteKeyCode={["Delete", "Backspace"]}
+              onNodeDragStop={handleNodeDragStop}
+              snapToGrid={snapToGrid}
+              snapGrid={[GRID_SIZE, GRID_SIZE]}
               fitView
             >
               <MiniMap />
               <Controls />
-              <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+              <Background
+                variant={BackgroundVariant.Dots}
+                gap={snapToGrid ? GRID_SIZE : 12}
+                size={1}
+              />
             </ReactFlow>
           </div>
 
@@ -476,15 +893,90 @@ export function LatticeGame() {
               {lattice.map((el) => (
                 <li key={el.value}>
                   <strong>{el.value}</strong> →{" "}
-                  {el.connections.length
-                    ? el.connections.join(", ")
+                  {el.relations.length
+                    ? el.relations.join(", ")
                     : "(no connections)"}
                 </li>
               ))}
             </ul>
 
             {feedback && (
-              <p className="text-sm font-medium text-blue-500">{feedback}</p>
+              <p className="text-sm font-medium text-blue-500 whitespace-pre-wrap">
+                {feedback}
+              </p>
+            )}
+
+            {identityResult?.violation && (
+              <div className="text-sm border border-amber-400 bg-amber-50 rounded-md p-2 space-y-1">
+                <p className="font-semibold">Violating triple</p>
+                <p>
+                  (x, y, z) = ({identityResult.violation.triple.join(", ")})
+                </p>
+                <p className="text-gray-600">{identityResult.violation.identity}</p>
+                <p>
+                  left side = {identityResult.violation.lhs}, right side ={" "}
+                  {identityResult.violation.rhs}
+                </p>
+                {identityResult.witness && (
+                  <p>
+                    Embedded {identityResult.witness.kind}:{" "}
+                    {(identityResult.witness.kind === "N5"
+                      ? ["0", "a", "c", "b", "1"]
+                      : ["0", "x", "y", "z", "1"]
+                    )
+                      .map(
+                        (role, i) =>
+                          `${role} = ${identityResult.witness!.elements[i]}`
+                      )
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {complementReport?.isBounded && (
+              <div className="text-sm border rounded-md p-2 space-y-1">
+                <p className="font-semibold">
+                  Complements (0 = {complementReport.bottom}, 1 ={" "}
+                  {complementReport.top})
+                </p>
+                <ul className="list-disc list-inside">
+                  {lattice.map((el) => (
+                    <li key={el.value}>
+                      <strong>{el.value}</strong>′ ={" "}
+                      {complementReport.complements[el.value]?.length
+                        ? complementReport.complements[el.value].join(", ")
+                        : "(no complement)"}
+                    </li>
+                  ))}
+                </ul>
+                <p>
+                  Complemented: {complementReport.isComplemented ? "yes" : "no"}
+                  {" · "}Uniquely complemented:{" "}
+                  {complementReport.isUniquelyComplemented ? "yes" : "no"}
+                  {" · "}Distributive:{" "}
+                  {complementReport.isDistributive ? "yes" : "no"}
+                </p>
+                {complementReport.isBoolean && complementReport.isomorphism && (
+                  <>
+                    <p className="font-semibold">
+                      Atoms: {complementReport.atoms.join(", ") || "(none)"}
+                    </p>
+                    <p className="text-gray-600">
+                      Isomorphism to the power set of the atoms:
+                    </p>
+                    <ul className="list-disc list-inside">
+                      {lattice.map((el) => (
+                        <li key={el.value}>
+                          {el.value} ↦ {"{"}
+                          {complementReport.isomorphism![el.value].join(", ")}
+                          {"}"}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
             )}
           </div>
         </div>
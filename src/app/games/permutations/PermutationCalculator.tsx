@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  evaluateExpression,
+  formatCycles,
+  isPermutation,
+  type EvaluationResult,
+} from "@/lib/permutation";
+
+// Default names offered when saving, in order
+const SUGGESTED_NAMES = ["σ", "τ", "ρ", "π", "μ", "ν"];
+
+type SavedPermutation = {
+  name: string;
+  images: Record<string, string>; // element -> image, so it survives new elements
+};
+
+type PermutationCalculatorProps = {
+  elements: string[];
+  mapping: string[];
+  onLoad: (mapping: string[]) => void;
+};
+
+/**
+ * Holds several named permutations and evaluates expressions such as
+ * `σ∘τ⁻¹`, `σ^k` or `[σ,τ]` over them, tracing every element step by step.
+ */
+export function PermutationCalculator({
+  elements,
+  mapping,
+  onLoad,
+}: PermutationCalculatorProps) {
+  const [saved, setSaved] = useState<SavedPermutation[]>([]);
+  const [newName, setNewName] = useState(SUGGESTED_NAMES[0]);
+  const [expression, setExpression] = useState("");
+  // The result remembers the elements it was evaluated over
+  const [evaluated, setEvaluated] = useState<{
+    elements: string[];
+    result: EvaluationResult;
+  } | null>(null);
+  const [message, setMessage] = useState("");
+
+  // Changing the domain drops a result built for the old one
+  const result =
+    evaluated &&
+    evaluated.elements.length === elements.length &&
+    evaluated.elements.every((x, i) => x === elements[i])
+      ? evaluated.result
+      : null;
+
+  /**
+   * A saved permutation over the current elements (new elements are fixed),
+   * or null if it no longer fits the domain.
+   */
+  const onCurrentElements = (p: SavedPermutation): string[] | null => {
+    const m = elements.map((x) => p.images[x] ?? x);
+    return isPermutation(elements, m) ? m : null;
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || /[\s()[\],∘*·.^⁻]/.test(name)) {
+      setMessage("Names cannot be empty or contain spaces, brackets or operators.");
+      return;
+    }
+    if (!isPermutation(elements, mapping)) {
+      setMessage("The table does not hold a valid permutation yet.");
+      return;
+    }
+    const images: Record<string, string> = {};
+    elements.forEach((x, i) => (images[x] = mapping[i]));
+    const updated = [...saved.filter((p) => p.name !== name), { name, images }];
+    setSaved(updated);
+    setMessage(`Saved ${name} = ${formatCycles(elements, mapping)}.`);
+    const used = updated.map((p) => p.name);
+    setNewName(SUGGESTED_NAMES.find((n) => !used.includes(n)) ?? "");
+  };
+
+  const handleEvaluate = () => {
+    const perms: Record<string, string[]> = {};
+    saved.forEach((p) => {
+      const m = onCurrentElements(p);
+      if (m) perms[p.name] = m;
+    });
+    const evaluation = evaluateExpression(expression, elements, perms);
+    setEvaluated({ elements, result: evaluation });
+    setMessage(
+      evaluation.ok
+        ? ""
+        : `Error at position ${evaluation.position + 1}: ${evaluation.error}`
+    );
+  };
+
+  const handleLoad = (m: string[]) => {
+    if (!isPermutation(elements, m)) {
+      setMessage("That result no longer fits the current elements.");
+      return;
+    }
+    onLoad(m);
+  };
+
+  return (
+    <div className="border p-4 rounded-md space-y-3">
+      <h4 className="font-semibold text-sm text-gray-600">
+        Composition calculator
+      </h4>
+
+      <div>
+        <Label htmlFor="permName">Save current permutation as</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="permName"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="σ"
+          />
+          <Button variant="outline" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {saved.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {saved.map((p) => {
+            const m = onCurrentElements(p);
+            return (
+              <li key={p.name} className="flex items-center gap-2">
+                <strong>{p.name}</strong> ={" "}
+                {m ? formatCycles(elements, m) : "(not on current elements)"}
+                {m && (
+                  <Button size="sm" variant="ghost" onClick={() => handleLoad(m)}>
+                    Load
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div>
+        <Label htmlFor="permExpression">Expression</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="permExpression"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleEvaluate()}
+            placeholder="σ∘τ⁻¹, σ^3, [σ,τ]"
+          />
+          <Button onClick={handleEvaluate}>Evaluate</Button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Products are read right to left: σ∘τ applies τ first.
+        </p>
+      </div>
+
+      {message && (
+        <p className="text-sm font-medium text-blue-600 whitespace-pre-wrap">
+          {message}
+        </p>
+      )}
+
+      {result?.ok && (
+        <div className="text-sm space-y-1">
+          <p>
+            <strong>Result:</strong> {formatCycles(elements, result.mapping)}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleLoad(result.mapping)}
+            >
+              Load into table
+            </Button>
+          </p>
+          {result.factors.length > 0 && (
+            <>
+              <p className="text-gray-600">
+                Step-by-step (rightmost factor first):
+              </p>
+              <ul className="font-mono">
+                {result.trace.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
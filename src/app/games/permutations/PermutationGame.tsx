@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,54 +12,72 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { DraftNotice } from "@/components/DraftNotice";
+import { PuzzlePanel } from "@/components/PuzzlePanel";
+import { StructureFileButtons } from "@/components/StructureFileButtons";
+import { useFreePlayDraft } from "@/hooks/use-free-play-draft";
+import { useGameProgress } from "@/hooks/use-game-progress";
+import { useHistory } from "@/hooks/use-history";
+import {
+  adjacentTranspositionDecomposition,
+  computeCycles,
+  formatCycles,
+  formatOneLine,
+  formatTranspositions,
+  formatTwoLineLatex,
+  inversions,
+  isPermutation,
+  parsePermutation,
+  permutationOrder,
+  sign,
+  transpositionDecomposition,
+} from "@/lib/permutation";
+import { describeInputError, parseLabelList } from "@/lib/order";
+import {
+  evaluatePermutationPuzzle,
+  permutationPuzzles,
+  type PuzzleEvaluation,
+} from "@/lib/puzzles";
+import {
+  decodePermutationStructure,
+  encodeStructure,
+  parsePermutationDocument,
+  permutationDocument,
+  stringifyDocument,
+  structureUrl,
+} from "@/lib/serialization";
+import { PermutationCalculator } from "./PermutationCalculator";
 
 /**
  * Optional: If you want a drag-and-drop library, you'd install something like react-beautiful-dnd or dnd-kit.
  * For simplicity, this example uses a table-based approach, but you can adapt to any method you prefer.
  */
 
-// Helper to compute GCD (used for LCM)
-function gcd(a: number, b: number): number {
-  return b === 0 ? a : gcd(b, a % b);
-}
-
-// Compute cycle decomposition & return array of cycles, each cycle is an array of element labels
-function computeCycles(elements: string[], permutation: string[]): string[][] {
-  // Example: elements = ["A", "B", "C"], permutation = ["B", "C", "A"]
-  // That means: A->B, B->C, C->A => single cycle (A B C).
-
-  const visited = new Set<number>();
-  const cycles: string[][] = [];
-
-  for (let i = 0; i < elements.length; i++) {
-    if (!visited.has(i)) {
-      const cycle: string[] = [];
-      let current = i;
-      while (!visited.has(current)) {
-        visited.add(current);
-        cycle.push(elements[current]);
-        // Next = index of permutation[current] in the "elements" array
-        const next = elements.indexOf(permutation[current]);
-        current = next;
-      }
-      if (cycle.length > 1) {
-        cycles.push(cycle);
-      } else {
-        // If it's a 1-cycle, let's still show it as a cycle, or skip if you prefer
-        cycles.push(cycle);
-      }
-    }
-  }
-
-  return cycles;
-}
+// The two rows of the table, recorded together in the undo history
+type PermutationTable = { elements: string[]; mapping: string[] };
 
 /**
- * Main Component
+ * Main Component. With a `puzzleId` from the permutation catalog the table
+ * starts from that puzzle and its goals are shown above it. A `sharedState`
+ * from a copied link replaces the starting table.
  */
-export function PermutationGame() {
+export function PermutationGame({
+  puzzleId,
+  sharedState,
+}: {
+  puzzleId?: string;
+  sharedState?: string;
+}) {
+  const puzzle = permutationPuzzles.find((p) => p.id === puzzleId);
+  const [shared] = useState(() =>
+    sharedState ? decodePermutationStructure(sharedState) : null
+  );
+  const start = shared?.ok ? shared.document : puzzle?.start;
+
   // The set of unique elements (in a fixed "domain" order).
-  const [elements, setElements] = useState<string[]>(["A", "B", "C"]);
+  const [elements, setElements] = useState<string[]>(
+    start?.elements ?? ["A", "B", "C"]
+  );
 
   /**
    * `mapping[i] = ?` means "the element at position i (elements[i]) is sent to ???"
@@ -70,32 +89,70 @@ export function PermutationGame() {
    *  - elements[1] = "B" -> "C"
    *  - elements[2] = "C" -> "A"
    */
-  const [mapping, setMapping] = useState<string[]>(["B", "C", "A"]);
+  const [mapping, setMapping] = useState<string[]>(
+    start?.mapping ?? ["B", "C", "A"]
+  );
 
   // For user input to add a new element
   const [newElement, setNewElement] = useState("");
-  const [feedback, setFeedback] = useState("");
+  const [notation, setNotation] = useState("");
+  const [feedback, setFeedback] = useState(
+    shared && !shared.ok ? `Could not open the shared link: ${shared.error}` : ""
+  );
+  const [selectedInversion, setSelectedInversion] = useState<
+    [number, number] | null
+  >(null);
+  const [puzzleEvaluation, setPuzzleEvaluation] =
+    useState<PuzzleEvaluation | null>(null);
+  const { recordCheck, recordPuzzleSolved } = useGameProgress("permutations");
+
+  const history = useHistory<PermutationTable>((restored, message) => {
+    setElements(restored.elements);
+    setMapping(restored.mapping);
+    setPuzzleEvaluation(null);
+    setFeedback(message);
+  });
+
+  // Replace the table as one undoable step
+  const commitTable = (label: string, updated: PermutationTable) => {
+    history.record(label, { elements, mapping }, updated);
+    setElements(updated.elements);
+    setMapping(updated.mapping);
+    setPuzzleEvaluation(null);
+  };
 
   // ------------------------------------------------------------------
   // Handlers
   // ------------------------------------------------------------------
   const handleAddElement = () => {
-    const el = newElement.trim().toUpperCase();
-    if (!el) {
+    const text = newElement.trim();
+    if (!text) {
       setFeedback("Please enter a valid element name.");
       return;
     }
-    if (elements.includes(el)) {
-      setFeedback(`Element "${el}" already exists.`);
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return;
+    }
+    const existing = result.labels.find((l) => elements.includes(l.text));
+    if (existing) {
+      setFeedback(
+        describeInputError(text, `Element "${existing.text}" already exists.`, existing.position)
+      );
       return;
     }
-    // Add new element
-    const newArr = [...elements, el];
-    // Expand the mapping by default (we can map the new element to itself)
-    const newMap = [...mapping, el];
-    setElements(newArr);
-    setMapping(newMap);
-    setFeedback(`Added element "${el}" successfully!`);
+    // Add new elements
+    const added = result.labels.map((l) => l.text);
+    const newArr = [...elements, ...added];
+    // Expand the mapping by default (we can map each new element to itself)
+    const newMap = [...mapping, ...added];
+    const list = added.map((el) => `"${el}"`).join(", ");
+    commitTable(`add element${added.length > 1 ? "s" : ""} ${list}`, {
+      elements: newArr,
+      mapping: newMap,
+    });
+    setFeedback(`Added element${added.length > 1 ? "s" : ""} ${list} successfully!`);
     setNewElement("");
   };
 
@@ -107,26 +164,48 @@ export function PermutationGame() {
   const handleChangeMapping = (idx: number, newValue: string) => {
     const newMap = [...mapping];
     newMap[idx] = newValue;
-    setMapping(newMap);
+    commitTable(`map ${elements[idx]} → ${newValue}`, {
+      elements,
+      mapping: newMap,
+    });
     setFeedback("");
   };
 
+  /**
+   * Parse the typed cycle or one-line notation and load it into the table.
+   */
+  const handleApplyNotation = () => {
+    const result = parsePermutation(notation, elements);
+    if (!result.ok) {
+      setFeedback(describeInputError(notation, result.error, result.position));
+      return;
+    }
+    commitTable(`apply ${notation.trim()}`, {
+      elements: result.elements,
+      mapping: result.mapping,
+    });
+    setFeedback(`Loaded ${formatCycles(result.elements, result.mapping)}.`);
+  };
+
   // Validate the permutation
   const handleCheckPermutation = () => {
     // The permutation must contain exactly the same set of elements, once each
     // i.e. "mapping" must be a rearrangement of "elements".
     const usedSet = new Set(mapping);
     if (usedSet.size !== elements.length) {
+      recordCheck(false);
       setFeedback("Invalid permutation: each element must appear exactly once in the codomain.");
       return;
     }
     // Also verify that all values in mapping are from "elements".
     for (const val of mapping) {
       if (!elements.includes(val)) {
+        recordCheck(false);
         setFeedback(`Invalid permutation: "${val}" is not in the set of elements.`);
         return;
       }
     }
+    recordCheck(true);
     setFeedback("Permutation is valid!");
   };
 
@@ -140,18 +219,108 @@ export function PermutationGame() {
     }
 
     const cycles = computeCycles(elements, mapping);
-    const lengths = cycles.map((c) => c.length);
-    const permutationOrder = lengths.reduce((acc, len) => (acc * len) / gcd(acc, len), 1);
+    const order = permutationOrder(cycles);
 
     // Build a user-friendly message
     let msg = `Cycle decomposition: `;
     msg += cycles
       .map((cycle) => `(${cycle.join(" ")})`)
       .join(" ");
-    msg += `\nOrder of this permutation: ${permutationOrder}`;
+    msg += `\nOrder of this permutation: ${order}`;
+
+    // Parity: sign, inversions and transposition decompositions
+    const sgn = sign(elements, mapping);
+    const minimal = transpositionDecomposition(elements, mapping);
+    const adjacent = adjacentTranspositionDecomposition(elements, mapping);
+    msg += `\nSign: ${sgn > 0 ? "+1" : "−1"} (${sgn > 0 ? "even" : "odd"})`;
+    msg += `\nInversions: ${inversions(elements, mapping).length}`;
+    msg += `\nMinimal transpositions (${minimal.length}): ${formatTranspositions(minimal)}`;
+    msg += `\nAdjacent transpositions (${adjacent.length}): ${formatTranspositions(adjacent)}`;
     setFeedback(msg);
   };
 
+  // Grade the table against the active puzzle's goals
+  const handleCheckPuzzle = () => {
+    if (!puzzle) return;
+    const evaluation = evaluatePermutationPuzzle(puzzle, elements, mapping);
+    setPuzzleEvaluation(evaluation);
+    recordCheck(evaluation.solved);
+    if (!evaluation.solved) {
+      setFeedback("Not there yet: some goals are still unmet.");
+      return;
+    }
+    recordPuzzleSolved(puzzle.id, evaluation.edits);
+    setFeedback(
+      evaluation.edits <= puzzle.par
+        ? `Puzzle solved in ${evaluation.edits} edit(s), at or under par ${puzzle.par}!`
+        : `Puzzle solved in ${evaluation.edits} edit(s). Par is ${puzzle.par}, try again for a tighter solution.`
+    );
+  };
+
+  const handleRestartPuzzle = () => {
+    if (!puzzle) return;
+    commitTable("restart puzzle", puzzle.start);
+    setFeedback("Puzzle restarted.");
+  };
+
+  const handleImport = (text: string) => {
+    const result = parsePermutationDocument(text);
+    if (!result.ok) {
+      setFeedback(`Could not load the file: ${result.error}`);
+      return;
+    }
+    commitTable("load file", {
+      elements: result.document.elements,
+      mapping: result.document.mapping,
+    });
+    setFeedback(
+      `Loaded ${formatCycles(result.document.elements, result.document.mapping)} from the file.`
+    );
+  };
+
+  // Free play is saved for the session so opening a puzzle does not lose it
+  const freePlayDraft = useFreePlayDraft(
+    "permutations",
+    encodeStructure(permutationDocument(elements, mapping)),
+    { saving: !puzzle, offer: !puzzle && !sharedState }
+  );
+
+  const handleRestoreDraft = () => {
+    const result =
+      freePlayDraft.draft && decodePermutationStructure(freePlayDraft.draft);
+    freePlayDraft.dismiss();
+    if (!result || !result.ok) return;
+    commitTable("restore free play", {
+      elements: result.document.elements,
+      mapping: result.document.mapping,
+    });
+    setFeedback("Restored your free-play permutation.");
+  };
+
+  const handleCopyLink = async () => {
+    const url = structureUrl(
+      window.location.origin + window.location.pathname,
+      permutationDocument(elements, mapping),
+      { puzzle: puzzle?.id }
+    );
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedback("Link copied! It opens this exact permutation.");
+    } catch {
+      setFeedback(`Copy this link to share the permutation:\n${url}`);
+    }
+  };
+
+  const currentInversions = isPermutation(elements, mapping)
+    ? inversions(elements, mapping)
+    : [];
+  // Columns involved in the selected inversion are shaded in the table
+  // (ignored once an edit means it is no longer an inversion)
+  const isSelected = ([i, j]: [number, number]) =>
+    selectedInversion?.[0] === i && selectedInversion?.[1] === j;
+  const inInversion = (idx: number) =>
+    currentInversions.some((pair) => isSelected(pair) && pair.includes(idx));
+
   // A helper to get a list of elements as <option> for selects.
   const elementOptions = elements.map((e) => (
     <option key={e} value={e}>
@@ -169,6 +338,20 @@ export function PermutationGame() {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {freePlayDraft.draft && (
+            <DraftNotice
+              onRestore={handleRestoreDraft}
+              onDismiss={freePlayDraft.dismiss}
+            />
+          )}
+          {puzzle && (
+            <PuzzlePanel
+              puzzle={puzzle}
+              evaluation={puzzleEvaluation}
+              onCheck={handleCheckPuzzle}
+              onRestart={handleRestartPuzzle}
+            />
+          )}
 
           {/* Add new element */}
           <div>
@@ -176,7 +359,7 @@ export function PermutationGame() {
             <div className="flex space-x-2">
               <Input
                 id="newElement"
-                placeholder="e.g. D"
+                placeholder="e.g. D or {5, 6, -1}"
                 value={newElement}
                 onChange={(e) => setNewElement(e.target.value)}
               />
@@ -184,6 +367,21 @@ export function PermutationGame() {
             </div>
           </div>
 
+          {/* Type the permutation in cycle or one-line notation */}
+          <div>
+            <Label htmlFor="notation">Enter Permutation</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="notation"
+                placeholder="(A C)(B D E) or [C A B]"
+                value={notation}
+                onChange={(e) => setNotation(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleApplyNotation()}
+              />
+              <Button onClick={handleApplyNotation}>Apply</Button>
+            </div>
+          </div>
+
           {/* Show the permutation in a 2-row table */}
           <div className="border p-4 rounded-md space-y-2">
             <h4 className="font-semibold text-sm text-gray-600">
@@ -193,7 +391,12 @@ export function PermutationGame() {
               <thead>
                 <tr>
                   {elements.map((el, idx) => (
-                    <th key={el} className="border px-2 py-1 bg-gray-100">
+                    <th
+                      key={el}
+                      className={`border px-2 py-1 ${
+                        inInversion(idx) ? "bg-red-200" : "bg-gray-100"
+                      }`}
+                    >
                       {el}
                     </th>
                   ))}
@@ -202,7 +405,12 @@ export function PermutationGame() {
               <tbody>
                 <tr>
                   {mapping.map((val, idx) => (
-                    <td key={idx} className="border px-2 py-1">
+                    <td
+                      key={idx}
+                      className={`border px-2 py-1 ${
+                        inInversion(idx) ? "bg-red-100" : ""
+                      }`}
+                    >
                       <select
                         className="focus:outline-none"
                         value={val}
@@ -215,12 +423,67 @@ export function PermutationGame() {
                 </tr>
               </tbody>
             </table>
+
+            {/* Inversions: pairs of columns whose images are out of order */}
+            {currentInversions.length > 0 && (
+              <div className="text-sm">
+                <span className="text-gray-600">
+                  Inversions ({currentInversions.length}):{" "}
+                </span>
+                {currentInversions.map(([i, j]) => (
+                  <button
+                    key={`${i}-${j}`}
+                    type="button"
+                    onClick={() =>
+                      setSelectedInversion(isSelected([i, j]) ? null : [i, j])
+                    }
+                    className={`mr-1 mb-1 px-2 rounded border ${
+                      isSelected([i, j])
+                        ? "border-red-500 bg-red-100"
+                        : "border-gray-300 hover:bg-gray-100"
+                    }`}
+                  >
+                    ({elements[i]}, {elements[j]}): {mapping[i]} &gt; {mapping[j]}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Buttons for checks */}
           <div className="flex flex-wrap gap-2">
             <Button onClick={handleCheckPermutation}>Check Permutation</Button>
-            <Button onClick={handleCalculateOrder}>Calculate Order</Button>
+            <Button onClick={handleCalculateOrder}>Calculate Order & Parity</Button>
+            <Button variant="outline" asChild>
+              <Link href="/puzzles">Puzzles</Link>
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title={history.undoLabel && `Undo ${history.undoLabel} (Ctrl+Z)`}
+            >
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title={history.redoLabel && `Redo ${history.redoLabel} (Ctrl+Y)`}
+            >
+              Redo
+            </Button>
+            <Button variant="outline" onClick={handleCopyLink}>
+              Copy Link
+            </Button>
+            <StructureFileButtons
+              fileName="permutation.json"
+              getContents={() =>
+                stringifyDocument(permutationDocument(elements, mapping))
+              }
+              onLoad={handleImport}
+              onError={(error) => setFeedback(`Could not load the file: ${error}`)}
+            />
           </div>
 
           {/* Display elements */}
@@ -229,6 +492,35 @@ export function PermutationGame() {
             <p>{elements.join(", ")}</p>
           </div>
 
+          {/* The same permutation in other notations */}
+          {isPermutation(elements, mapping) && (
+            <div className="text-sm space-y-1">
+              <h3 className="font-bold">Notations:</h3>
+              <p>
+                Cycle: <code>{formatCycles(elements, mapping)}</code>
+              </p>
+              <p>
+                One-line: <code>{formatOneLine(mapping)}</code>
+              </p>
+              <p>
+                Two-line (LaTeX):{" "}
+                <code className="break-all">
+                  {formatTwoLineLatex(elements, mapping)}
+                </code>
+              </p>
+            </div>
+          )}
+
+          {/* Compose named permutations */}
+          <PermutationCalculator
+            elements={elements}
+            mapping={mapping}
+            onLoad={(m) => {
+              commitTable("load calculator result", { elements, mapping: m });
+              setFeedback(`Loaded ${formatCycles(elements, m)} into the table.`);
+            }}
+          />
+
           {/* Feedback */}
           {feedback && (
             <p className="text-sm font-medium text-blue-600 whitespace-pre-wrap">
@@ -1,10 +1,20 @@
 import React from "react";
 import { PermutationGame } from "./PermutationGame";
 
-export default function Page() {
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ puzzle?: string; s?: string }>;
+}) {
+  const { puzzle, s } = await searchParams;
+
   return (
     <div className="min-h-screen flex items-center justify-center">
-      <PermutationGame/>
+      <PermutationGame
+        key={`${puzzle ?? "free"}:${s ?? ""}`}
+        puzzleId={puzzle}
+        sharedState={s}
+      />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import type { ChainDecomposition } from "@/lib/order";
+
+/** Node fill for each chain of the partition, cycled when there are more. */
+export const CHAIN_COLORS = [
+  "#fde68a",
+  "#bfdbfe",
+  "#fbcfe8",
+  "#bbf7d0",
+  "#ddd6fe",
+  "#fed7aa",
+  "#a5f3fc",
+  "#e5e7eb",
+];
+
+export const chainColor = (index: number) =>
+  CHAIN_COLORS[index % CHAIN_COLORS.length];
+
+type ChainPanelProps = {
+  report: ChainDecomposition | null;
+  picked: string[] | null;
+  onCheckAntichain: () => void;
+  onClearPicked: () => void;
+};
+
+/**
+ * Height, width and a minimum chain partition of the poset, with the chain
+ * colors used on the canvas. While the player is picking an antichain it
+ * also shows the picked elements and lets them check the pick.
+ */
+export function ChainPanel({
+  report,
+  picked,
+  onCheckAntichain,
+  onClearPicked,
+}: ChainPanelProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      {report && (
+        <div className="space-y-1">
+          <h3 className="font-bold underline">Chains &amp; Antichains:</h3>
+          <p>
+            <strong>Height {report.height}:</strong>{" "}
+            {report.longestChain.join(" < ")}
+          </p>
+          <p>
+            <strong>Width {report.width}:</strong> {"{"}
+            {report.antichain.join(", ")}
+            {"}"}
+          </p>
+          <p>
+            Dilworth: the width equals the fewest chains covering the poset,{" "}
+            {report.chains.length} here.
+          </p>
+          <ul className="space-y-1">
+            {report.chains.map((chain, i) => (
+              <li key={chain.join(" ")} className="flex items-center gap-2">
+                <span
+                  className="inline-block w-3 h-3 rounded-sm border border-gray-400"
+                  style={{ background: chainColor(i) }}
+                />
+                {chain.join(" < ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {picked && (
+        <div className="space-y-1">
+          <h3 className="font-bold underline">Antichain Pick:</h3>
+          <p className="text-gray-600">
+            Click elements on the canvas to add or drop them.
+          </p>
+          <p>
+            {"{"}
+            {picked.join(", ")}
+            {"}"}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={onCheckAntichain}>
+              Check Antichain
+            </Button>
+            <Button size="sm" variant="outline" onClick={onClearPicked}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  MAX_COUNTED_ELEMENTS,
+  checkLinearExtension,
+  countLinearExtensions,
+  elementValues,
+  firstLinearExtension,
+  isSameStructure,
+  nextLinearExtension,
+  type ExtensionCheck,
+  type FiniteOrder,
+} from "@/lib/order";
+
+type ExtensionExplorerProps = {
+  poset: FiniteOrder;
+  onCheck: (valid: boolean) => void;
+};
+
+/**
+ * Linear extensions of the poset: step through them one at a time, or drag
+ * the elements into a total order and check that it respects the relation.
+ */
+export function ExtensionExplorer({ poset, onCheck }: ExtensionExplorerProps) {
+  const values = elementValues(poset);
+  const count = useMemo(() => countLinearExtensions(poset), [poset]);
+  // Both results remember the poset they were computed for
+  const [generated, setGenerated] = useState<{
+    poset: FiniteOrder;
+    extension: string[];
+    index: number;
+  } | null>(null);
+  const [arrangement, setArrangement] = useState<string[]>(values);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [checked, setChecked] = useState<{
+    poset: FiniteOrder;
+    result: ExtensionCheck;
+  } | null>(null);
+
+  // Follow element edits: keep the student's order, append new elements
+  const sequence = [
+    ...arrangement.filter((v) => values.includes(v)),
+    ...values.filter((v) => !arrangement.includes(v)),
+  ];
+  // Editing the relation starts the enumeration and the check over
+  const current =
+    generated && isSameStructure(generated.poset, poset) ? generated : null;
+  const check =
+    checked && isSameStructure(checked.poset, poset) ? checked.result : null;
+
+  const handleNext = () => {
+    const next = current && nextLinearExtension(poset, current.extension);
+    setGenerated(
+      next
+        ? { poset, extension: next, index: current.index + 1 }
+        : { poset, extension: firstLinearExtension(poset), index: 1 }
+    );
+  };
+
+  const handleDrop = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const updated = [...sequence];
+    const [moved] = updated.splice(dragIndex, 1);
+    updated.splice(target, 0, moved);
+    setArrangement(updated);
+    setDragIndex(null);
+    setChecked(null);
+  };
+
+  const handleCheck = () => {
+    const result = checkLinearExtension(poset, sequence);
+    setChecked({ poset, result });
+    onCheck(result.isValid);
+  };
+
+  const handleUseGenerated = () => {
+    if (!current) return;
+    setArrangement(current.extension);
+    setChecked(null);
+  };
+
+  const countText =
+    count === null
+      ? `more than ${MAX_COUNTED_ELEMENTS} elements, too many to count`
+      : `${count} linear extension${count === 1 ? "" : "s"}`;
+
+  return (
+    <div className="space-y-3 text-sm border-t pt-4">
+      <h3 className="font-bold underline">Linear Extensions:</h3>
+      <p>This poset has {countText}.</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={handleNext}>
+          {current ? "Next Extension" : "First Extension"}
+        </Button>
+        {current && (
+          <>
+            <span>
+              #{current.index}
+              {count !== null && ` of ${count}`}:{" "}
+              <strong>{current.extension.join(" < ")}</strong>
+            </span>
+            <Button size="sm" variant="outline" onClick={handleUseGenerated}>
+              Use as My Order
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div>
+        <p className="text-gray-600 mb-1">
+          Drag the elements into a total order, smallest first:
+        </p>
+        <ol className="flex flex-wrap gap-2">
+          {sequence.map((v, i) => (
+            <li
+              key={v}
+              draggable
+              onDragStart={() => setDragIndex(i)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(i)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`cursor-move rounded border px-3 py-1 font-bold ${
+                check?.conflict?.includes(v)
+                  ? "border-red-500 bg-red-50"
+                  : "border-gray-300 bg-white"
+              } ${dragIndex === i ? "opacity-50" : ""}`}
+            >
+              {i + 1}. {v}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleCheck}>
+          Check Order
+        </Button>
+        {check && (
+          <span className={check.isValid ? "text-green-700" : "text-red-600"}>
+            {check.isValid
+              ? "✓ This order is a linear extension."
+              : `✗ ${check.reason}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
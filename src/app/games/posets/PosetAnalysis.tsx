@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  analyzeElements,
+  type BoundResult,
+  type FiniteOrder,
+} from "@/lib/order";
+
+/** The analysis row whose elements are highlighted on the canvas. */
+export type AnalysisFocus = { row: string; nodes: string[] };
+
+type AnalysisRow = {
+  row: string;
+  text: string;
+  // Elements marked on the canvas when the row is selected
+  nodes: string[];
+};
+
+type PosetAnalysisProps = {
+  poset: FiniteOrder;
+  subset: string[];
+  focus: AnalysisFocus | null;
+  onChange: (subset: string[], focus: AnalysisFocus | null) => void;
+};
+
+const listRow = (row: string, nodes: string[]): AnalysisRow => ({
+  row,
+  text: nodes.length ? nodes.join(", ") : "none",
+  nodes,
+});
+
+// A missing sup/inf still highlights its incomparable candidates
+const boundRow = (row: string, result: BoundResult, side: "upper" | "lower") => {
+  if (result.ok) return listRow(row, [result.value]);
+  return {
+    row,
+    text:
+      result.reason === "incomparable"
+        ? `none, ${result.candidates.join(" and ")} are incomparable`
+        : `none, there is no ${side} bound`,
+    nodes: result.candidates,
+  };
+};
+
+function analysisRows(poset: FiniteOrder, subset: string[]): AnalysisRow[] {
+  const report = analyzeElements(poset, subset);
+  const rows = [
+    listRow("Minimal", report.minimal),
+    listRow("Maximal", report.maximal),
+    listRow("Least", report.least ? [report.least] : []),
+    listRow("Greatest", report.greatest ? [report.greatest] : []),
+  ];
+  if (!subset.length) return rows;
+  return [
+    ...rows,
+    listRow("Upper bounds of S", report.upperBounds),
+    listRow("Lower bounds of S", report.lowerBounds),
+    boundRow("sup S", report.supremum, "upper"),
+    boundRow("inf S", report.infimum, "lower"),
+  ];
+}
+
+/**
+ * The focused row recomputed for another poset or subset, or null when it
+ * is no longer listed (the subset rows disappear with an empty subset).
+ */
+export function refocus(
+  poset: FiniteOrder,
+  subset: string[],
+  focus: AnalysisFocus | null
+): AnalysisFocus | null {
+  if (!focus) return null;
+  const row = analysisRows(poset, subset).find((r) => r.row === focus.row);
+  return row ? { row: row.row, nodes: row.nodes } : null;
+}
+
+/**
+ * Live classification of the poset's elements. Picking elements forms a
+ * subset whose bounds, supremum and infimum are listed as well; clicking a
+ * row highlights its elements on the canvas.
+ */
+export function PosetAnalysis({
+  poset,
+  subset,
+  focus,
+  onChange,
+}: PosetAnalysisProps) {
+  const rows = useMemo(() => analysisRows(poset, subset), [poset, subset]);
+
+  const handleToggleElement = (value: string) => {
+    const updated = subset.includes(value)
+      ? subset.filter((v) => v !== value)
+      : [...subset, value];
+    // Keep the focused row, now computed for the new subset
+    onChange(updated, refocus(poset, updated, focus));
+  };
+
+  const handleSelectRow = (row: AnalysisRow) => {
+    onChange(
+      subset,
+      focus?.row === row.row ? null : { row: row.row, nodes: row.nodes }
+    );
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <h3 className="font-bold underline">Element Analysis:</h3>
+      <div>
+        <p className="text-gray-600 mb-1">Subset S (click elements to pick):</p>
+        <div className="flex flex-wrap gap-1">
+          {poset.map((el) => (
+            <Button
+              key={el.value}
+              size="sm"
+              variant={subset.includes(el.value) ? "default" : "outline"}
+              onClick={() => handleToggleElement(el.value)}
+            >
+              {el.value}
+            </Button>
+          ))}
+          {subset.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => onChange([], null)}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+      <ul className="space-y-1">
+        {rows.map((row) => (
+          <li key={row.row}>
+            <button
+              type="button"
+              onClick={() => handleSelectRow(row)}
+              className={`w-full text-left rounded px-2 py-1 border ${
+                focus?.row === row.row
+                  ? "border-green-500 bg-green-50"
+                  : "border-transparent hover:bg-gray-100"
+              }`}
+            >
+              <strong>{row.row}:</strong> {row.text}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
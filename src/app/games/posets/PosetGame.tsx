@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useMemo, useState, useRef } from "react";
+import Link from "next/link";
 import ReactFlow, {
   Background,
   Controls,
@@ -11,6 +12,7 @@ import ReactFlow, {
   useEdgesState,
   Connection,
   BackgroundVariant,
+  Position,
 } from "reactflow";
 import "reactflow/dist/style.css";
 
@@ -24,12 +26,67 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ConstructionPanel } from "@/components/ConstructionPanel";
+import { PresetGallery } from "@/components/PresetGallery";
+import { DraftNotice } from "@/components/DraftNotice";
+import { PuzzlePanel } from "@/components/PuzzlePanel";
+import { StructureFileButtons } from "@/components/StructureFileButtons";
+import { useFreePlayDraft } from "@/hooks/use-free-play-draft";
+import { useGameProgress } from "@/hooks/use-game-progress";
+import { useHistory } from "@/hooks/use-history";
+import {
+  antichainExtensions,
+  chainDecomposition,
+  checkAntichain,
+  checkAntisymmetry,
+  describeInputError,
+  diagnosePoset,
+  findElement,
+  hasRelation,
+  hasseLayout,
+  isSameStructure,
+  parseLabelList,
+  parseRelationInput,
+  rankRows,
+  reflexiveClosure,
+  relationDiff,
+  transitiveClosure,
+  transitiveReduction,
+  withoutElements,
+  withoutPairs,
+  type ChainDecomposition,
+  type FiniteOrder,
+  type OrderElement,
+  type OrderPair,
+  type OrderProperty,
+  type PosetDiagnostics,
+  type PropertyViolation,
+  type RelationDiff,
+} from "@/lib/order";
+import {
+  evaluateOrderPuzzle,
+  posetPuzzles,
+  type PuzzleEvaluation,
+} from "@/lib/puzzles";
+import {
+  decodeOrderStructure,
+  encodeStructure,
+  orderDocument,
+  parseOrderDocument,
+  stringifyDocument,
+  structureUrl,
+} from "@/lib/serialization";
+import { ChainPanel, chainColor } from "./ChainPanel";
+import { ExtensionExplorer } from "./ExtensionExplorer";
+import { PosetAnalysis, refocus, type AnalysisFocus } from "./PosetAnalysis";
+
+// relations: elements that this element "relates to" (i.e., a ≤ b)
+type PosetElement = OrderElement;
 
-type PosetElement = {
-  value: string;
-  relations: string[]; // elements that this element "relates to" (i.e., a ≤ b)
-  x?: number;          // optional x-coord for visualization
-  y?: number;          // optional y-coord for visualization
+const propertyTitles: Record<OrderProperty, string> = {
+  reflexivity: "Not Reflexive",
+  antisymmetry: "Not Antisymmetric",
+  transitivity: "Not Transitive",
 };
 
 /** 
@@ -43,57 +100,193 @@ const initialPoset: PosetElement[] = [
   { value: "D", relations: [], x: 180, y: 400 },
 ];
 
-/**
- * Example Puzzle:
- *   P -> Q -> R 
- * (We might want a puzzle that is NOT reflexive or transitive to start with,
- *  so the student can fix it)
- */
-const puzzlePoset: PosetElement[] = [
-  { value: "P", relations: ["Q"], x: 100, y: 100 },
-  { value: "Q", relations: ["R"], x: 100, y: 250 },
-  { value: "R", relations: [], x: 100, y: 400 },
-];
+/** What undo and redo restore: the poset and whether the Hasse view is on. */
+type PosetSnapshot = { poset: PosetElement[]; hasse: boolean };
+
+type GraphOptions = {
+  hasse?: boolean;
+  preview?: RelationDiff;
+  highlight?: PropertyViolation;
+  subset?: string[];
+  focus?: AnalysisFocus | null;
+  chains?: string[][];
+  picked?: string[];
+};
+
+// Grid size used when snap-to-grid is on
+const GRID_SIZE = 20;
+
+const isListed = (pairs: OrderPair[], a: string, b: string) =>
+  pairs.some(([p, q]) => p === a && q === b);
 
 /**
- * Convert PosetElement[] into React Flow nodes & edges
+ * Convert PosetElement[] into React Flow nodes & edges.
+ * Nodes sit at the stored `x`/`y`; elements without a position fall back to
+ * the Hasse layout.
+ * With `hasse` on, only covering edges are drawn (loops and edges implied by
+ * transitivity are hidden), and every node sits on its current rank row at its
+ * stored `x`, so edits that change ranks move nodes onto the right row.
+ * A `preview` diff overlays a pending closure/reduction: added pairs are drawn
+ * in green, removed ones in dashed red, and nodes gaining or losing a loop get
+ * a matching border.
+ * A `highlight` violation marks its offending nodes and edges in orange and
+ * sketches the pairs that are missing as dashed edges.
+ * Otherwise the analysis panel's `subset` is outlined in blue and the
+ * elements of its `focus` row are filled in green.
+ * `chains` fills each chain of a partition with its own color, and the
+ * `picked` antichain candidates get a thick purple border.
  */
-function buildGraph(poset: PosetElement[]) {
+function buildGraph(poset: PosetElement[], options: GraphOptions = {}) {
+  const {
+    hasse = false,
+    preview,
+    highlight,
+    subset = [],
+    focus,
+    chains = [],
+    picked = [],
+  } = options;
+  const analysis = !preview && !highlight;
+  const layout =
+    hasse || poset.some((el) => el.x === undefined || el.y === undefined)
+      ? hasseLayout(poset)
+      : null;
+  const drawn =
+    hasse && !preview && !highlight ? transitiveReduction(poset) : poset;
+  const nodeBorder = (v: string) => {
+    if (isListed(preview?.added ?? [], v, v)) return "2px solid #16a34a";
+    if (isListed(preview?.removed ?? [], v, v)) return "2px solid #dc2626";
+    if (highlight?.nodes.includes(v)) return "2px solid #ea580c";
+    if (picked.includes(v)) return "3px solid #7c3aed";
+    if (analysis && subset.includes(v)) return "2px solid #2563eb";
+    if (analysis && focus?.nodes.includes(v)) return "2px solid #16a34a";
+    return "1px solid #999";
+  };
+  const nodeBackground = (v: string) => {
+    if (highlight?.nodes.includes(v)) return "#ffedd5";
+    if (analysis && focus?.nodes.includes(v)) return "#dcfce7";
+    const chain = chains.findIndex((c) => c.includes(v));
+    return chain === -1 ? "white" : chainColor(chain);
+  };
+
   // Create nodes
   const nodes: Node[] = poset.map((el) => ({
     id: el.value,
-    position: { x: el.x ?? Math.random() * 400, y: el.y ?? Math.random() * 300 },
+    position: hasse
+      ? { x: el.x ?? layout![el.value].x, y: layout![el.value].y }
+      : el.x !== undefined && el.y !== undefined
+        ? { x: el.x, y: el.y }
+        : layout![el.value],
+    // Lower elements sit below in a Hasse diagram, so edges leave upwards
+    ...(hasse
+      ? { sourcePosition: Position.Top, targetPosition: Position.Bottom }
+      : {}),
     data: { label: el.value },
     style: {
-      border: "1px solid #999",
+      border: nodeBorder(el.value),
       padding: 10,
       borderRadius: 6,
-      background: "white",
+      background: nodeBackground(el.value),
       fontWeight: "bold",
     },
   }));
 
   // Create edges
   const edges: Edge[] = [];
-  poset.forEach((el) => {
+  drawn.forEach((el) => {
     el.relations.forEach((rel) => {
       edges.push({
-        id: `${el.value}-${rel}`,
+        id: JSON.stringify([el.value, rel]),
         source: el.value,
         target: rel,
         label: `${el.value} ≤ ${rel}`, // optional edge label
+        ...(preview && isListed(preview.removed, el.value, rel)
+          ? {
+              animated: true,
+              style: { stroke: "#dc2626", strokeDasharray: "6 4" },
+            }
+          : {}),
+        ...(highlight && isListed(highlight.edges, el.value, rel)
+          ? { animated: true, style: { stroke: "#ea580c", strokeWidth: 2 } }
+          : {}),
       });
     });
   });
+  preview?.added.forEach(([a, b]) => {
+    edges.push({
+      id: JSON.stringify(["added", a, b]),
+      source: a,
+      target: b,
+      label: `+ ${a} ≤ ${b}`,
+      animated: true,
+      style: { stroke: "#16a34a", strokeWidth: 2 },
+    });
+  });
+  highlight?.missing
+    .filter(([a, b]) => a !== b)
+    .forEach(([a, b]) => {
+      edges.push({
+        id: JSON.stringify(["missing", a, b]),
+        source: a,
+        target: b,
+        label: `missing ${a} ≤ ${b}`,
+        style: { stroke: "#ea580c", strokeDasharray: "6 4" },
+      });
+    });
 
   return { nodes, edges };
 }
 
-export function PosetGame() {
-  const [poset, setPoset] = useState<PosetElement[]>(initialPoset);
+/**
+ * With a `puzzleId` from the poset catalog the game starts from that puzzle
+ * and shows its goals; otherwise it opens the free-play example. A
+ * `sharedState` from a copied link replaces the starting structure.
+ */
+export function PosetGame({
+  puzzleId,
+  sharedState,
+}: {
+  puzzleId?: string;
+  sharedState?: string;
+}) {
+  const puzzle = posetPuzzles.find((p) => p.id === puzzleId);
+  const [shared] = useState(() =>
+    sharedState ? decodeOrderStructure(sharedState) : null
+  );
+  const [poset, setPoset] = useState<PosetElement[]>(
+    shared?.ok ? shared.document.elements : puzzle?.start ?? initialPoset
+  );
   const [newElement, setNewElement] = useState("");
   const [newRelation, setNewRelation] = useState("");
-  const [feedback, setFeedback] = useState("");
+  const [feedback, setFeedback] = useState(
+    shared && !shared.ok ? `Could not open the shared link: ${shared.error}` : ""
+  );
+  const [hasse, setHasse] = useState(false);
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  const [alignRows, setAlignRows] = useState(false);
+  const [pendingTransform, setPendingTransform] = useState<{
+    name: string;
+    result: PosetElement[];
+    diff: RelationDiff;
+  } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<PosetDiagnostics | null>(
+    null
+  );
+  const [selectedViolation, setSelectedViolation] =
+    useState<PropertyViolation | null>(null);
+  const [puzzleEvaluation, setPuzzleEvaluation] =
+    useState<PuzzleEvaluation | null>(null);
+  const [subset, setSubset] = useState<string[]>([]);
+  const [analysisFocus, setAnalysisFocus] = useState<AnalysisFocus | null>(
+    null
+  );
+  const [chainReport, setChainReport] = useState<ChainDecomposition | null>(
+    null
+  );
+  // Elements picked as an antichain; null when not picking
+  const [antichain, setAntichain] = useState<string[] | null>(null);
+  const [showExtensions, setShowExtensions] = useState(false);
+  const { recordCheck, recordPuzzleSolved } = useGameProgress("posets");
 
   // Build initial graph data for React Flow
   const { nodes: initNodes, edges: initEdges } = buildGraph(poset);
@@ -103,186 +296,563 @@ export function PosetGame() {
   // --------------------------------------------------------------------
   // Helpers
   // --------------------------------------------------------------------
-  const rebuildGraph = (updatedPoset: PosetElement[]) => {
-    const { nodes: newNodes, edges: newEdges } = buildGraph(updatedPoset);
+  const rebuildGraph = (
+    updatedPoset: PosetElement[],
+    options: GraphOptions = {}
+  ) => {
+    const changed = !isSameStructure(updatedPoset, poset);
+    // Unless the caller sets a focus, the focused analysis row follows the
+    // redrawn poset
+    const liveSubset = (options.subset ?? subset).filter((v) =>
+      findElement(updatedPoset, v)
+    );
+    const focus =
+      options.focus !== undefined
+        ? options.focus
+        : refocus(updatedPoset, liveSubset, analysisFocus);
+    const { nodes: newNodes, edges: newEdges } = buildGraph(updatedPoset, {
+      hasse,
+      subset,
+      chains: changed ? undefined : chainReport?.chains,
+      picked: antichain ?? undefined,
+      ...options,
+      focus,
+    });
     setNodes(newNodes);
     setEdges(newEdges);
+    if (!options.preview) setPendingTransform(null);
+    setSelectedViolation(options.highlight ?? null);
+    setAnalysisFocus(focus);
+    // A new poset makes the last diagnostics report stale
+    if (changed) {
+      setDiagnostics(null);
+      setPuzzleEvaluation(null);
+      setChainReport(null);
+    }
+  };
+
+  // Undo and redo restore the Hasse view together with the poset
+  const history = useHistory<PosetSnapshot>((restored, message) => {
+    setPoset(restored.poset);
+    setHasse(restored.hasse);
+    rebuildGraph(restored.poset, { hasse: restored.hasse });
+    setFeedback(message);
+  });
+
+  // Replace the poset as one undoable step and redraw it
+  const commitPoset = (label: string, updatedPoset: PosetElement[]) => {
+    history.record(label, { poset, hasse }, { poset: updatedPoset, hasse });
+    setPoset(updatedPoset);
+    rebuildGraph(updatedPoset);
+  };
+
+  /**
+   * Turning the Hasse view on also lays the poset out by rank; turning it off
+   * keeps the positions. Either way it is one undoable step.
+   */
+  const handleToggleHasse = () => {
+    const layout = hasseLayout(poset);
+    const updatedPoset = hasse
+      ? poset
+      : poset.map((el) => ({ ...el, ...layout[el.value] }));
+    history.record(
+      hasse ? "Hasse view off" : "Hasse layout",
+      { poset, hasse },
+      { poset: updatedPoset, hasse: !hasse }
+    );
+    setHasse(!hasse);
+    setPoset(updatedPoset);
+    rebuildGraph(updatedPoset, {
+      hasse: !hasse,
+      preview: pendingTransform?.diff,
+      highlight: selectedViolation ?? undefined,
+    });
   };
 
   // --------------------------------------------------------------------
-  // Adding Elements & Relations
+  // Node Positions
   // --------------------------------------------------------------------
-  const handleAddElement = () => {
-    const elTrim = newElement.trim();
-    if (!elTrim) return;
-    // Check for duplicates
-    if (poset.some((el) => el.value === elTrim)) {
-      setFeedback(`Element "${elTrim}" already exists.`);
+  /**
+   * Write dragged positions back into the poset so later edits, export and
+   * shared links keep them. With row alignment or the Hasse view on, dropped
+   * nodes move onto the row of their rank.
+   */
+  const handleNodeDragStop = (
+    _event: React.MouseEvent,
+    _node: Node,
+    dragged: Node[]
+  ) => {
+    const rows = alignRows || hasse ? rankRows(poset) : null;
+    const moved = new Map(
+      dragged.map((n) => [
+        n.id,
+        { x: n.position.x, y: rows?.[n.id] ?? n.position.y },
+      ])
+    );
+    const updatedPoset = poset.map((el) => {
+      const position = moved.get(el.value);
+      return position ? { ...el, ...position } : el;
+    });
+    if (updatedPoset.every((el, i) => el.x === poset[i].x && el.y === poset[i].y)) {
       return;
     }
-    // Add new element
-    const newEl: PosetElement = {
-      value: elTrim,
-      relations: [],
-      x: Math.random() * 400 + 100,
-      y: Math.random() * 300 + 100,
-    };
-    const updatedPoset = [...poset, newEl];
+    history.record(
+      `move ${[...moved.keys()].join(", ")}`,
+      { poset, hasse },
+      { poset: updatedPoset, hasse }
+    );
     setPoset(updatedPoset);
-    setNewElement("");
-    setFeedback(`Element "${elTrim}" added successfully!`);
-    rebuildGraph(updatedPoset);
+    if (rows) {
+      setNodes((nds) =>
+        nds.map((n) => {
+          const position = moved.get(n.id);
+          return position ? { ...n, position } : n;
+        })
+      );
+    }
   };
 
-  const handleAddRelation = () => {
-    const relTrim = newRelation.trim();
-    const [from, to] = relTrim.split("-");
-    if (!from || !to || from === to) {
-      setFeedback('Invalid relation format. Use "A-B" to relate A to B, and A ≠ B.');
-      return;
+  // --------------------------------------------------------------------
+  // Adding Elements & Relations
+  // --------------------------------------------------------------------
+  /**
+   * Read the relation input, reporting a parse error or the first label
+   * that is not an element. Returns null when the input was rejected.
+   */
+  const readRelationInput = (): OrderPair[] | null => {
+    const text = newRelation.trim();
+    const result = parseRelationInput(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
+      return null;
     }
-    // Check if from & to exist
-    if (!poset.some((el) => el.value === from)) {
-      setFeedback(`Element "${from}" does not exist.`);
+    const unknown = result.labels.find((l) => !findElement(poset, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
+      );
+      return null;
+    }
+    return result.pairs;
+  };
+
+  const handleAddElement = () => {
+    const text = newElement.trim();
+    if (!text) return;
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
       return;
     }
-    if (!poset.some((el) => el.value === to)) {
-      setFeedback(`Element "${to}" does not exist.`);
+    // Check for duplicates
+    const existing = result.labels.find((l) => findElement(poset, l.text));
+    if (existing) {
+      setFeedback(
+        describeInputError(text, `Element "${existing.text}" already exists.`, existing.position)
+      );
       return;
     }
+    // Add new elements
+    const values = result.labels.map((l) => l.text);
+    // In the Hasse view new elements stay unplaced, so the Hasse layout puts
+    // them on their rank row
+    const newEls: PosetElement[] = values.map((value) => ({
+      value,
+      relations: [],
+      ...(hasse
+        ? {}
+        : { x: Math.random() * 400 + 100, y: Math.random() * 300 + 100 }),
+    }));
+    const list = values.map((v) => `"${v}"`).join(", ");
+    commitPoset(`add element${values.length > 1 ? "s" : ""} ${list}`, [...poset, ...newEls]);
+    setNewElement("");
+    setFeedback(`Element${values.length > 1 ? "s" : ""} ${list} added successfully!`);
+  };
+
+  const handleAddRelation = () => {
+    const pairs = readRelationInput();
+    if (!pairs) return;
     // Update the poset
     const updatedPoset = poset.map((el) => {
-      if (el.value === from) {
-        if (!el.relations.includes(to)) {
-          return { ...el, relations: [...el.relations, to] };
-        }
-      }
-      return el;
+      const added = pairs
+        .filter(([a, b]) => a === el.value && !el.relations.includes(b))
+        .map(([, b]) => b);
+      return added.length
+        ? { ...el, relations: [...new Set([...el.relations, ...added])] }
+        : el;
     });
-    setPoset(updatedPoset);
+    const list = pairs.map(([a, b]) => `${a} ≤ ${b}`).join(", ");
+    commitPoset(`relate ${list}`, updatedPoset);
     setNewRelation("");
-    setFeedback(`Relation "${from} ≤ ${to}" added successfully!`);
-    rebuildGraph(updatedPoset);
+    setFeedback(`Relation${pairs.length > 1 ? "s" : ""} "${list}" added successfully!`);
   };
 
   /**
    * If you allow drag-to-connect in React Flow, handle it here
    */
-  const onConnect = useCallback(
-    (connection: Connection) => {
-      if (!connection.source || !connection.target) return;
-      const { source, target } = connection;
-
-      // Update the poset
-      const updatedPoset = poset.map((el) => {
-        if (el.value === source && !el.relations.includes(target)) {
-          return { ...el, relations: [...el.relations, target] };
-        }
-        return el;
-      });
-      setPoset(updatedPoset);
-      rebuildGraph(updatedPoset);
-    },
-    [poset]
-  );
+  const onConnect = (connection: Connection) => {
+    if (!connection.source || !connection.target) return;
+    const { source, target } = connection;
+
+    // Update the poset
+    const updatedPoset = poset.map((el) => {
+      if (el.value === source && !el.relations.includes(target)) {
+        return { ...el, relations: [...el.relations, target] };
+      }
+      return el;
+    });
+    commitPoset(`connect ${source} ≤ ${target}`, updatedPoset);
+  };
 
   // --------------------------------------------------------------------
-  // POSET Property Checks
+  // Removing Elements & Relations
   // --------------------------------------------------------------------
-  const handleCheckPoset = () => {
-    // 1. Reflexive
-    const reflexiveInfo = checkReflexivity(poset);
-    if (!reflexiveInfo.isValid) {
-      setFeedback(`Not Reflexive: ${reflexiveInfo.reason}`);
+  const handleRemoveElement = () => {
+    const text = newElement.trim();
+    const result = parseLabelList(text);
+    if (!result.ok) {
+      setFeedback(describeInputError(text, result.error, result.position));
       return;
     }
-    // 2. Antisymmetric
-    const antisymInfo = checkAntisymmetry(poset);
-    if (!antisymInfo.isValid) {
-      setFeedback(`Not Antisymmetric: ${antisymInfo.reason}`);
+    const unknown = result.labels.find((l) => !findElement(poset, l.text));
+    if (unknown) {
+      setFeedback(
+        describeInputError(text, `Element "${unknown.text}" does not exist.`, unknown.position)
+      );
       return;
     }
-    // 3. Transitive
-    const transInfo = checkTransitivity(poset);
-    if (!transInfo.isValid) {
-      setFeedback(`Not Transitive: ${transInfo.reason}`);
+    const values = result.labels.map((l) => l.text);
+    const list = values.map((v) => `"${v}"`).join(", ");
+    commitPoset(
+      `remove element${values.length > 1 ? "s" : ""} ${list}`,
+      withoutElements(poset, values)
+    );
+    setNewElement("");
+    setFeedback(`Element${values.length > 1 ? "s" : ""} ${list} and all of their relations removed.`);
+  };
+
+  const handleRemoveRelation = () => {
+    const pairs = readRelationInput();
+    if (!pairs) return;
+    const missing = pairs.find(([a, b]) => !hasRelation(poset, a, b));
+    if (missing) {
+      setFeedback(`"${missing[0]} ≤ ${missing[1]}" is not in the relation.`);
       return;
     }
-    setFeedback("Congratulations! This is a valid POSET.");
+    const list = pairs.map(([a, b]) => `${a} ≤ ${b}`).join(", ");
+    commitPoset(`remove ${list}`, withoutPairs(poset, pairs));
+    setNewRelation("");
+    setFeedback(`Relation${pairs.length > 1 ? "s" : ""} "${list}" removed.`);
   };
 
   /**
-   * Check reflexivity: a ≤ a for all a in poset
+   * Apply a canvas deletion. Edges drawn only as previews or hints are not
+   * part of the relation, so they just disappear with the redraw.
    */
-  function checkReflexivity(poset: PosetElement[]) {
-    for (const el of poset) {
-      if (!el.relations.includes(el.value)) {
-        return {
-          isValid: false,
-          reason: `${el.value} is not related to itself.`,
-        };
-      }
+  const deleteFromCanvas = (ids: string[], pairs: OrderPair[]) => {
+    const stated = pairs.filter(
+      ([a, b]) => hasRelation(poset, a, b) && !ids.includes(a) && !ids.includes(b)
+    );
+    if (!ids.length && !stated.length) {
+      rebuildGraph(poset);
+      return;
+    }
+    const removed = [
+      ...ids.map((id) => `"${id}"`),
+      ...stated.map(([a, b]) => `${a} ≤ ${b}`),
+    ].join(", ");
+    commitPoset(
+      `delete ${removed}`,
+      withoutElements(withoutPairs(poset, stated), ids)
+    );
+    setFeedback(`Deleted ${removed}.`);
+  };
+
+  // React Flow reports the edges and nodes removed by one key press in two
+  // separate callbacks; collect both and apply them as a single step
+  const pendingDeletion = useRef<{ ids: string[]; pairs: OrderPair[] } | null>(
+    null
+  );
+  const queueDeletion = (ids: string[], removedEdges: Edge[]) => {
+    if (!pendingDeletion.current) {
+      const pending = { ids: [] as string[], pairs: [] as OrderPair[] };
+      pendingDeletion.current = pending;
+      queueMicrotask(() => {
+        pendingDeletion.current = null;
+        deleteFromCanvas(pending.ids, pending.pairs);
+      });
+    }
+    pendingDeletion.current.ids.push(...ids);
+    pendingDeletion.current.pairs.push(
+      ...removedEdges.map((e): OrderPair => [e.source, e.target])
+    );
+  };
+
+  // --------------------------------------------------------------------
+  // POSET Property Checks
+  // --------------------------------------------------------------------
+  const handleCheckPoset = () => {
+    const report = diagnosePoset(poset);
+    rebuildGraph(poset);
+    recordCheck(report.isPoset);
+    if (report.isPoset) {
+      setDiagnostics(null);
+      setFeedback("Congratulations! This is a valid POSET.");
+      return;
     }
-    return { isValid: true, reason: "" };
-  }
+    setDiagnostics(report);
+    setFeedback(
+      `Not a POSET: ${report.violations.length} violation(s) found. Click one to see it on the diagram.`
+    );
+  };
+
+  const handleSelectViolation = (violation: PropertyViolation) => {
+    rebuildGraph(poset, {
+      highlight: violation === selectedViolation ? undefined : violation,
+    });
+  };
 
+  // --------------------------------------------------------------------
+  // Element Analysis
+  // --------------------------------------------------------------------
+  const handleAnalysisChange = (
+    updatedSubset: string[],
+    focus: AnalysisFocus | null
+  ) => {
+    setSubset(updatedSubset);
+    rebuildGraph(poset, { subset: updatedSubset, focus });
+  };
+
+  // --------------------------------------------------------------------
+  // Chains & Antichains
+  // --------------------------------------------------------------------
   /**
-   * Check antisymmetry: if a ≤ b and b ≤ a, then a = b.
+   * Chains and antichains need a partial order: on a cycle the elements are
+   * comparable both ways, so width and chain partition are not defined.
    */
-  function checkAntisymmetry(poset: PosetElement[]) {
-    // We'll gather pairs that violate antisymmetry
-    for (const el1 of poset) {
-      for (const el2 of poset) {
-        if (
-          el1.value !== el2.value &&
-          el1.relations.includes(el2.value) &&
-          el2.relations.includes(el1.value)
-        ) {
-          return {
-            isValid: false,
-            reason: `Both "${el1.value} ≤ ${el2.value}" and "${el2.value} ≤ ${el1.value}" found.`,
-          };
-        }
-      }
+  const cycleReason = () => {
+    const check = checkAntisymmetry(transitiveClosure(poset));
+    return check.isValid
+      ? null
+      : `Chains need a partial order, but the relation has a cycle: ${check.reason}`;
+  };
+
+  const handleToggleChains = () => {
+    if (chainReport) {
+      setChainReport(null);
+      rebuildGraph(poset, { chains: undefined });
+      return;
+    }
+    const cycle = cycleReason();
+    if (cycle) {
+      setFeedback(cycle);
+      return;
+    }
+    const report = chainDecomposition(poset);
+    setChainReport(report);
+    rebuildGraph(poset, { chains: report.chains });
+    setFeedback(
+      `Height ${report.height}, width ${report.width}: the poset splits into ${report.chains.length} chain(s), one per color.`
+    );
+  };
+
+  const handleTogglePicking = () => {
+    const updated = antichain ? null : [];
+    setAntichain(updated);
+    rebuildGraph(poset, { picked: updated ?? undefined });
+    setFeedback(
+      updated ? "Click elements on the canvas to pick an antichain." : ""
+    );
+  };
+
+  const handlePickAntichain = (value: string) => {
+    if (!antichain) return;
+    const updated = antichain.includes(value)
+      ? antichain.filter((v) => v !== value)
+      : [...antichain, value];
+    setAntichain(updated);
+    rebuildGraph(poset, { picked: updated });
+  };
+
+  const handleClearAntichain = () => {
+    setAntichain([]);
+    rebuildGraph(poset, { picked: [] });
+  };
+
+  const handleCheckAntichain = () => {
+    const picked = (antichain ?? []).filter((v) => findElement(poset, v));
+    if (!picked.length) {
+      setFeedback("Pick at least one element first.");
+      return;
     }
-    return { isValid: true, reason: "" };
-  }
+    const cycle = cycleReason();
+    if (cycle) {
+      setFeedback(cycle);
+      return;
+    }
+    const check = checkAntichain(poset, picked);
+    recordCheck(check.isValid);
+    if (!check.isValid) {
+      setFeedback(`Not an antichain: ${check.reason}`);
+      return;
+    }
+    const { width } = chainDecomposition(poset);
+    const extensions = antichainExtensions(poset, picked);
+    if (picked.length === width) {
+      setFeedback(
+        `A maximum antichain! Its ${width} element(s) match the width, so no partition uses fewer than ${width} chain(s).`
+      );
+    } else if (extensions.length) {
+      setFeedback(
+        `An antichain of size ${picked.length}, but it can grow: ${extensions.join(", ")} ${
+          extensions.length === 1 ? "is" : "are"
+        } incomparable to all of it.`
+      );
+    } else {
+      setFeedback(
+        `A maximal antichain of size ${picked.length}: nothing can be added, yet the width is ${width}.`
+      );
+    }
+  };
 
+  // --------------------------------------------------------------------
+  // Closure & Reduction Helpers
+  // --------------------------------------------------------------------
   /**
-   * Check transitivity: if a ≤ b and b ≤ c, then a ≤ c.
+   * Preview a transform of the current relation: every pair it would add or
+   * remove is animated on the canvas until the user applies or discards it.
    */
-  function checkTransitivity(poset: PosetElement[]) {
-    // A naive approach: for each el1 → el2, el2 → el3 => el1 → el3
-    for (const el1 of poset) {
-      for (const rel1 of el1.relations) {
-        // rel1 is b
-        // find b in poset
-        const bElement = poset.find((el) => el.value === rel1);
-        if (!bElement) continue;
-        for (const rel2 of bElement.relations) {
-          // rel2 is c
-          // check if el1.relations includes c
-          if (!el1.relations.includes(rel2)) {
-            return {
-              isValid: false,
-              reason: `Missing transitive link: ${el1.value} ≤ ${rel1} and ${rel1} ≤ ${rel2}, but no ${el1.value} ≤ ${rel2}.`,
-            };
-          }
-        }
-      }
+  const previewTransform = (
+    name: string,
+    transform: (p: PosetElement[]) => PosetElement[]
+  ) => {
+    const result = transform(poset);
+    const diff = relationDiff(poset, result);
+    if (!diff.added.length && !diff.removed.length) {
+      rebuildGraph(poset);
+      setFeedback(`${name}: nothing to change, the relation is already there.`);
+      return;
     }
-    return { isValid: true, reason: "" };
-  }
+    rebuildGraph(poset, { preview: diff });
+    setPendingTransform({ name, result, diff });
+    const lines = [
+      ...diff.added.map(([a, b]) => `+ ${a} ≤ ${b}`),
+      ...diff.removed.map(([a, b]) => `− ${a} ≤ ${b}`),
+    ];
+    setFeedback(
+      `${name} would add ${diff.added.length} and remove ${diff.removed.length} pair(s):\n${lines.join("\n")}`
+    );
+  };
+
+  const handleApplyTransform = () => {
+    if (!pendingTransform) return;
+    // Nodes may have moved since the preview; keep where they are now
+    const result = pendingTransform.result.map((el) => {
+      const current = poset.find((p) => p.value === el.value);
+      return current ? { ...el, x: current.x, y: current.y } : el;
+    });
+    commitPoset(pendingTransform.name.toLowerCase(), result);
+    setFeedback(`${pendingTransform.name} applied.`);
+  };
+
+  const handleDiscardTransform = () => {
+    rebuildGraph(poset);
+    setFeedback("");
+  };
 
   // --------------------------------------------------------------------
   // Puzzle Mode
   // --------------------------------------------------------------------
-  const handleLoadPuzzle = () => {
-    setPoset(puzzlePoset);
-    rebuildGraph(puzzlePoset);
-    setFeedback("Puzzle loaded! Fix it to make it a POSET.");
+  const handleCheckPuzzle = () => {
+    if (!puzzle) return;
+    const evaluation = evaluateOrderPuzzle(puzzle, poset);
+    setPuzzleEvaluation(evaluation);
+    recordCheck(evaluation.solved);
+    if (!evaluation.solved) {
+      setFeedback("Not there yet: some goals are still unmet.");
+      return;
+    }
+    recordPuzzleSolved(puzzle.id, evaluation.edits);
+    setFeedback(
+      evaluation.edits <= puzzle.par
+        ? `Puzzle solved in ${evaluation.edits} edit(s), at or under par ${puzzle.par}!`
+        : `Puzzle solved in ${evaluation.edits} edit(s). Par is ${puzzle.par}, try again for a tighter solution.`
+    );
+  };
+
+  const handleRestartPuzzle = () => {
+    if (!puzzle) return;
+    commitPoset("restart puzzle", puzzle.start);
+    setFeedback("Puzzle restarted.");
+  };
+
+  // --------------------------------------------------------------------
+  // Import / Export
+  // --------------------------------------------------------------------
+  const currentDocument = () => orderDocument("poset", poset);
+
+  // Free play is saved for the session so opening a puzzle does not lose it
+  const freePlayDraft = useFreePlayDraft("posets", encodeStructure(currentDocument()), {
+    saving: !puzzle,
+    offer: !puzzle && !sharedState,
+  });
+
+  const handleRestoreDraft = () => {
+    const result = freePlayDraft.draft && decodeOrderStructure(freePlayDraft.draft);
+    freePlayDraft.dismiss();
+    if (!result || !result.ok) return;
+    commitPoset("restore free play", result.document.elements);
+    setFeedback("Restored your free-play structure.");
+  };
+
+  const handleExport = () => stringifyDocument(currentDocument());
+
+  const handleCopyLink = async () => {
+    const url = structureUrl(
+      window.location.origin + window.location.pathname,
+      currentDocument(),
+      { puzzle: puzzle?.id }
+    );
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedback("Link copied! It opens this exact diagram.");
+    } catch {
+      setFeedback(`Copy this link to share the diagram:\n${url}`);
+    }
+  };
+
+  const handleImport = (text: string) => {
+    const result = parseOrderDocument(text);
+    if (!result.ok) {
+      setFeedback(`Could not load the file: ${result.error}`);
+      return;
+    }
+    const loaded = result.document.elements;
+    commitPoset("load file", loaded);
+    setFeedback(`Loaded ${loaded.length} element(s) from the file.`);
+  };
+
+  /**
+   * Open a preset or constructed order. They may state only covering pairs;
+   * the poset gets the full reflexive and transitive relation, shown as its
+   * Hasse diagram.
+   */
+  const handleOpenStructure = (order: FiniteOrder, title: string) => {
+    const loaded = reflexiveClosure(transitiveClosure(order));
+    history.record(`open ${title}`, { poset, hasse }, { poset: loaded, hasse: true });
+    setPoset(loaded);
+    setHasse(true);
+    rebuildGraph(loaded, { hasse: true });
+    setFeedback(`Opened ${title}: ${loaded.length} element(s).`);
   };
 
+  // Picked elements that still exist, kept stable so the analysis panel only
+  // recomputes when the poset or the pick changes
+  const liveSubset = useMemo(
+    () => subset.filter((v) => findElement(poset, v)),
+    [poset, subset]
+  );
+
   return (
     <Card className="w-full max-w-5xl mx-auto my-8">
       <CardHeader>
@@ -292,41 +862,165 @@ export function PosetGame() {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {freePlayDraft.draft && (
+          <div className="mb-4">
+            <DraftNotice
+              onRestore={handleRestoreDraft}
+              onDismiss={freePlayDraft.dismiss}
+            />
+          </div>
+        )}
+        {puzzle && (
+          <div className="mb-4">
+            <PuzzlePanel
+              puzzle={puzzle}
+              evaluation={puzzleEvaluation}
+              onCheck={handleCheckPuzzle}
+              onRestart={handleRestartPuzzle}
+            />
+          </div>
+        )}
         <div className="space-y-4 mb-4">
           {/* Add Element */}
           <div>
-            <Label htmlFor="newElement">Add Element</Label>
+            <Label htmlFor="newElement">Add or Remove Element</Label>
             <div className="flex space-x-2">
               <Input
                 id="newElement"
                 value={newElement}
                 onChange={(e) => setNewElement(e.target.value)}
-                placeholder="New element"
+                placeholder="a, b or {1, 2, 3}"
               />
               <Button onClick={handleAddElement}>Add</Button>
+              <Button variant="outline" onClick={handleRemoveElement}>
+                Remove
+              </Button>
             </div>
           </div>
 
           {/* Add Relation */}
           <div>
-            <Label htmlFor="newRelation">Add Relation</Label>
+            <Label htmlFor="newRelation">Add or Remove Relation</Label>
             <div className="flex space-x-2">
               <Input
                 id="newRelation"
                 value={newRelation}
                 onChange={(e) => setNewRelation(e.target.value)}
-                placeholder="A-B"
+                placeholder="a ≤ b, b < c or a -> b"
               />
               <Button onClick={handleAddRelation}>Relate</Button>
+              <Button variant="outline" onClick={handleRemoveRelation}>
+                Remove
+              </Button>
             </div>
           </div>
 
+          <PresetGallery onLoad={handleOpenStructure} />
+          <ConstructionPanel current={poset} onOpen={handleOpenStructure} />
+
           {/* Buttons: Check, Puzzle */}
           <div className="flex flex-wrap gap-2">
             <Button onClick={handleCheckPoset}>Check POSET Properties</Button>
-            <Button variant="outline" onClick={handleLoadPuzzle}>
-              Load Puzzle
+            <Button variant="outline" asChild>
+              <Link href="/puzzles">Puzzles</Link>
+            </Button>
+            <Button
+              variant={hasse ? "default" : "outline"}
+              onClick={handleToggleHasse}
+            >
+              Hasse Layout: {hasse ? "On" : "Off"}
+            </Button>
+            <Button
+              variant={chainReport ? "default" : "outline"}
+              onClick={handleToggleChains}
+            >
+              Chains &amp; Antichains
+            </Button>
+            <Button
+              variant={antichain ? "default" : "outline"}
+              onClick={handleTogglePicking}
+            >
+              Pick Antichain: {antichain ? "On" : "Off"}
+            </Button>
+            <Button
+              variant={showExtensions ? "default" : "outline"}
+              onClick={() => setShowExtensions(!showExtensions)}
+            >
+              Linear Extensions: {showExtensions ? "On" : "Off"}
             </Button>
+            <Button
+              variant={snapToGrid ? "default" : "outline"}
+              onClick={() => setSnapToGrid(!snapToGrid)}
+            >
+              Snap to Grid: {snapToGrid ? "On" : "Off"}
+            </Button>
+            <Button
+              variant={alignRows ? "default" : "outline"}
+              onClick={() => setAlignRows(!alignRows)}
+            >
+              Align to Rank Rows: {alignRows ? "On" : "Off"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title={history.undoLabel && `Undo ${history.undoLabel} (Ctrl+Z)`}
+            >
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title={history.redoLabel && `Redo ${history.redoLabel} (Ctrl+Y)`}
+            >
+              Redo
+            </Button>
+            <Button variant="outline" onClick={handleCopyLink}>
+              Copy Link
+            </Button>
+            <StructureFileButtons
+              fileName="poset.json"
+              getContents={handleExport}
+              onLoad={handleImport}
+              onError={(error) => setFeedback(`Could not load the file: ${error}`)}
+            />
+          </div>
+
+          {/* Closure helpers */}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="secondary"
+              onClick={() => previewTransform("Reflexive closure", reflexiveClosure)}
+            >
+              Reflexive Closure
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() =>
+                previewTransform("Transitive closure", transitiveClosure)
+              }
+            >
+              Transitive Closure
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() =>
+                previewTransform("Hasse reduction", transitiveReduction)
+              }
+            >
+              Hasse Reduction
+            </Button>
+            {pendingTransform && (
+              <>
+                <Button onClick={handleApplyTransform}>
+                  Apply {pendingTransform.name}
+                </Button>
+                <Button variant="ghost" onClick={handleDiscardTransform}>
+                  Discard
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -340,16 +1034,43 @@ export function PosetGame() {
               onNodesChange={onNodesChange}
               onEdgesChange={onEdgesChange}
               onConnect={onConnect}
+              onNodesDelete={(deleted) =>
+                queueDeletion(deleted.map((n) => n.id), [])
+              }
+              onEdgesDelete={(deleted) => queueDeletion([], deleted)}
+              deleteKeyCode={["Delete", "Backspace"]}
+              onNodeDragStop={handleNodeDragStop}
+              onNodeClick={(_event, node) => handlePickAntichain(node.id)}
+              snapToGrid={snapToGrid}
+              snapGrid={[GRID_SIZE, GRID_SIZE]}
               fitView
             >
               <MiniMap />
               <Controls />
-              <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+              <Background
+                variant={BackgroundVariant.Dots}
+                gap={snapToGrid ? GRID_SIZE : 12}
+                size={1}
+              />
             </ReactFlow>
           </div>
 
           {/* Right: Textual representation + Feedback */}
           <div className="w-1/3 space-y-4">
+            <PosetAnalysis
+              poset={poset}
+              subset={liveSubset}
+              focus={analysisFocus}
+              onChange={handleAnalysisChange}
+            />
+
+            <ChainPanel
+              report={chainReport}
+              picked={antichain && antichain.filter((v) => findElement(poset, v))}
+              onCheckAntichain={handleCheckAntichain}
+              onClearPicked={handleClearAntichain}
+            />
+
             <h3 className="font-bold underline">Current POSET (Adj. List):</h3>
             <ul className="list-disc list-inside">
               {poset.map((el) => (
@@ -367,8 +1088,49 @@ export function PosetGame() {
                 {feedback}
               </p>
             )}
+
+            {diagnostics && (
+              <div className="space-y-2 text-sm">
+                {(Object.keys(propertyTitles) as OrderProperty[]).map((prop) => {
+                  const found = diagnostics.violations.filter(
+                    (v) => v.property === prop
+                  );
+                  if (!found.length) return null;
+                  return (
+                    <div key={prop}>
+                      <h4 className="font-semibold">
+                        {propertyTitles[prop]} ({found.length})
+                      </h4>
+                      <ul className="space-y-1">
+                        {found.map((v) => (
+                          <li key={v.message}>
+                            <button
+                              type="button"
+                              onClick={() => handleSelectViolation(v)}
+                              className={`w-full text-left rounded px-2 py-1 border ${
+                                v === selectedViolation
+                                  ? "border-orange-500 bg-orange-50"
+                                  : "border-transparent hover:bg-gray-100"
+                              }`}
+                            >
+                              {v.message}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         </div>
+
+        {showExtensions && (
+          <div className="mt-4">
+            <ExtensionExplorer poset={poset} onCheck={recordCheck} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -4,16 +4,44 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 
+// Only paths on this site. Browsers read "//host" and "/\host" as another
+// host, and drop tabs and newlines, so "/\t/host" counts too.
+function safeRedirect(next: string | null) {
+  if (!next || !/^\/(?![/\\])\S*$/.test(next)) return '/dashboard'
+  return next
+}
+
 export default function Login() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
   const router = useRouter()
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    // Here you would typically handle the login logic
-    console.log('Login attempt', { email, password })
-    router.push('/dashboard')
+    setError('')
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error ?? 'Login failed. Please try again.')
+        return
+      }
+      // Return to the page the middleware sent us away from, if any
+      const next = new URLSearchParams(window.location.search).get('next')
+      router.push(safeRedirect(next))
+      router.refresh()
+    } catch {
+      setError('Could not reach the server. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
   }
 
   return (
@@ -37,8 +65,13 @@ export default function Login() {
             className="w-full px-3 py-2 mb-4 border rounded-md"
             required
           />
-          <button type="submit" className="w-full px-4 py-2 bg-blue-600 text-white rounded-md">
-            Login
+          {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50"
+          >
+            {submitting ? 'Logging in…' : 'Login'}
           </button>
         </form>
         <p className="mt-4">
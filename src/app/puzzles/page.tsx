@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+
+import { fetchProgressSummary } from '@/lib/progress/client'
+import { GAME_IDS, GAME_LABELS, type ProgressSummary } from '@/lib/progress/types'
+import { allPuzzles } from '@/lib/puzzles'
+
+export default function Puzzles() {
+  const [summary, setSummary] = useState<ProgressSummary | null>(null)
+
+  useEffect(() => {
+    fetchProgressSummary()
+      .then(setSummary)
+      .catch(() => setSummary(null))
+  }, [])
+
+  return (
+    <div className="flex flex-col min-h-screen p-8">
+      <h1 className="text-4xl font-bold mb-8">Puzzles</h1>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        {GAME_IDS.map((game) => (
+          <div key={game} className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-2xl font-semibold mb-4">{GAME_LABELS[game]}</h2>
+            <ul className="space-y-3">
+              {allPuzzles
+                .filter((p) => p.game === game)
+                .map((p) => {
+                  const done = summary?.completedPuzzles[p.id]
+                  return (
+                    <li key={p.id}>
+                      <Link
+                        href={`/games/${game}?puzzle=${p.id}`}
+                        className="block rounded border p-3 hover:bg-gray-50"
+                      >
+                        <div className="flex justify-between font-semibold">
+                          <span>{p.title}</span>
+                          <span className={done ? 'text-green-600' : 'text-gray-400'}>
+                            {done ? '✓' : '○'}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600">{p.description}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Par {p.par}
+                          {done && ` · best ${done.bestEdits} edit(s)`}
+                        </p>
+                      </Link>
+                    </li>
+                  )
+                })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -8,13 +8,32 @@ export default function Signup() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [username, setUsername] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
   const router = useRouter()
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    // Here you would typically handle the signup logic
-    console.log('Signup attempt', { email, password, username })
-    router.push('/dashboard')
+    setError('')
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, username }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error ?? 'Sign up failed. Please try again.')
+        return
+      }
+      router.push('/dashboard')
+      router.refresh()
+    } catch {
+      setError('Could not reach the server. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
   }
 
   return (
@@ -44,10 +63,16 @@ export default function Signup() {
             value={password}
             onChange={(e) => setPassword(e.target.value)}
             className="w-full px-3 py-2 mb-4 border rounded-md"
+            minLength={8}
             required
           />
-          <button type="submit" className="w-full px-4 py-2 bg-green-600 text-white rounded-md">
-            Sign Up
+          {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 bg-green-600 text-white rounded-md disabled:opacity-50"
+          >
+            {submitting ? 'Signing up…' : 'Sign Up'}
           </button>
         </form>
         <p className="mt-4">
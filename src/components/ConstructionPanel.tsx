@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  MAX_CONSTRUCTED_ELEMENTS,
+  disjointUnion,
+  dualOrder,
+  ordinalSum,
+  productOrder,
+  type FiniteOrder,
+} from "@/lib/order";
+
+type ConstructionPanelProps = {
+  /** The structure on the canvas, operand A. */
+  current: FiniteOrder;
+  /** Receives the constructed order, laid out as a Hasse diagram. */
+  onOpen: (order: FiniteOrder, title: string) => void;
+};
+
+/**
+ * Build a new structure from the one on the canvas (A) and a remembered
+ * second operand (B): product, ordinal sum, disjoint union, or the dual of A.
+ */
+export function ConstructionPanel({ current, onOpen }: ConstructionPanelProps) {
+  const [operand, setOperand] = useState<FiniteOrder | null>(null);
+
+  const binary = (
+    symbol: string,
+    construct: (a: FiniteOrder, b: FiniteOrder) => FiniteOrder
+  ) => {
+    if (!operand) return;
+    onOpen(construct(current, operand), `A ${symbol} B`);
+  };
+
+  // Sizes of A × B and of A ⊕ B / A + B; buttons whose result would exceed
+  // the limit are disabled
+  const productSize = current.length * (operand?.length ?? 0);
+  const sumSize = current.length + (operand?.length ?? 0);
+  const tooBig = (size: number) => size > MAX_CONSTRUCTED_ELEMENTS;
+  const overLimit = operand
+    ? [
+        tooBig(productSize) ? `A × B would have ${productSize}` : "",
+        tooBig(sumSize) ? `A ⊕ B and A + B would have ${sumSize}` : "",
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div>
+      <Label>Constructions</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={() => setOperand(current)}>
+          Remember as B
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!operand || tooBig(productSize)}
+          onClick={() => binary("×", productOrder)}
+        >
+          A × B
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!operand || tooBig(sumSize)}
+          onClick={() => binary("⊕", ordinalSum)}
+        >
+          A ⊕ B
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!operand || tooBig(sumSize)}
+          onClick={() => binary("+", disjointUnion)}
+        >
+          A + B
+        </Button>
+        <Button variant="outline" onClick={() => onOpen(dualOrder(current), "the dual of A")}>
+          Dual
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        A is the structure on the canvas.{" "}
+        {operand
+          ? `B has ${operand.length} element(s): ${operand.map((el) => el.value).join(", ")}.`
+          : "Remember a structure as B, then build or load A to combine them."}{" "}
+        × is the product order, ⊕ the ordinal (linear) sum with A below B, + the
+        disjoint union. Results may have at most {MAX_CONSTRUCTED_ELEMENTS}{" "}
+        elements{overLimit.length ? `; ${overLimit.join(", ")}.` : "."}
+      </p>
+    </div>
+  );
+}
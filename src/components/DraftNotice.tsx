@@ -0,0 +1,27 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+
+type DraftNoticeProps = {
+  onRestore: () => void;
+  onDismiss: () => void;
+};
+
+/**
+ * Offers back the free-play structure saved before a puzzle was opened.
+ */
+export function DraftNotice({ onRestore, onDismiss }: DraftNoticeProps) {
+  return (
+    <div className="rounded border border-amber-200 bg-amber-50 p-4 flex flex-wrap items-center gap-2 text-sm">
+      <p className="flex-1">
+        Your free-play structure from earlier in this session was saved.
+      </p>
+      <Button size="sm" onClick={onRestore}>
+        Restore it
+      </Button>
+      <Button size="sm" variant="outline" onClick={onDismiss}>
+        Keep this one
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+export default function LogoutButton() {
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  const handleLogout = async () => {
+    setError('')
+    try {
+      const res = await fetch('/api/auth/logout', { method: 'POST' })
+      if (!res.ok) {
+        setError('Logout failed. Please try again.')
+        return
+      }
+      router.push('/')
+      router.refresh()
+    } catch {
+      setError('Could not reach the server. Please try again.')
+    }
+  }
+
+  return (
+    <>
+      <button type="button" onClick={handleLogout}>
+        Logout
+      </button>
+      {error && <span className="ml-2 text-sm text-red-600">{error}</span>}
+    </>
+  )
+}
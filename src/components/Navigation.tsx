@@ -1,4 +1,5 @@
 import Link from 'next/link'
+import LogoutButton from '@/components/LogoutButton'
 
 export default function Navigation() {
   return (
@@ -8,7 +9,9 @@ export default function Navigation() {
         <li><Link href="/games/lattices">Lattice Builder</Link></li>
         <li><Link href="/games/posets">POSET Challenge</Link></li>
         <li><Link href="/games/permutations">Permutation Puzzles</Link></li>
-        <li><Link href="/">Logout</Link></li>
+        <li><Link href="/puzzles">Puzzles</Link></li>
+        <li><Link href="/exercises">Exercises</Link></li>
+        <li><LogoutButton /></li>
       </ul>
     </nav>
   )
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ORDER_PRESETS,
+  buildPreset,
+  describePreset,
+  type FiniteOrder,
+} from "@/lib/order";
+
+type PresetGalleryProps = {
+  /** Receives the built order, laid out as a Hasse diagram, and its title. */
+  onLoad: (order: FiniteOrder, title: string) => void;
+};
+
+/**
+ * Pick a textbook order (divisors, power sets, partitions, chains, M3, N5,
+ * grids, …), set its parameters and load it into the game.
+ */
+export function PresetGallery({ onLoad }: PresetGalleryProps) {
+  const [presetId, setPresetId] = useState(ORDER_PRESETS[0].id);
+  const preset = ORDER_PRESETS.find((p) => p.id === presetId) ?? ORDER_PRESETS[0];
+  const [args, setArgs] = useState<Record<string, string>>({});
+
+  const valueOf = (i: number) =>
+    args[`${preset.id}:${i}`] ?? String(preset.parameters[i].initial);
+
+  const handleLoad = () => {
+    // Empty or invalid fields fall back to the smallest allowed value
+    const values = preset.parameters.map((p, i) => Number(valueOf(i)) || p.min);
+    onLoad(buildPreset(preset, values), describePreset(preset, values));
+  };
+
+  return (
+    <div>
+      <Label htmlFor="preset">Load a Preset</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          id="preset"
+          className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          value={preset.id}
+          onChange={(e) => setPresetId(e.target.value)}
+        >
+          {ORDER_PRESETS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.title}
+            </option>
+          ))}
+        </select>
+        {preset.parameters.map((p, i) => (
+          <label key={`${preset.id}:${i}`} className="flex items-center gap-1 text-sm">
+            {p.label} =
+            <Input
+              type="number"
+              className="w-20"
+              min={p.min}
+              max={p.max}
+              value={valueOf(i)}
+              onChange={(e) =>
+                setArgs({ ...args, [`${preset.id}:${i}`]: e.target.value })
+              }
+            />
+          </label>
+        ))}
+        <Button variant="outline" onClick={handleLoad}>
+          Load
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {preset.description}
+        {preset.parameters.map((p) => ` ${p.label} from ${p.min} to ${p.max}.`)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import type { Puzzle, PuzzleEvaluation } from "@/lib/puzzles";
+
+type PuzzlePanelProps = {
+  puzzle: Puzzle;
+  evaluation: PuzzleEvaluation | null;
+  onCheck: () => void;
+  onRestart: () => void;
+};
+
+/**
+ * Goal checklist for the active puzzle. Goals stay unticked until the player
+ * asks for a check; hints are revealed one at a time.
+ */
+export function PuzzlePanel({
+  puzzle,
+  evaluation,
+  onCheck,
+  onRestart,
+}: PuzzlePanelProps) {
+  const [hintsShown, setHintsShown] = useState(0);
+
+  const handleRestart = () => {
+    setHintsShown(0);
+    onRestart();
+  };
+
+  return (
+    <div className="rounded border border-indigo-200 bg-indigo-50 p-4 space-y-3 text-sm">
+      <div>
+        <h3 className="font-bold">Puzzle: {puzzle.title}</h3>
+        <p>{puzzle.description}</p>
+      </div>
+
+      <ul className="space-y-1">
+        {(evaluation?.goals ?? []).map((goal) => (
+          <li key={goal.label} className={goal.met ? "text-green-700" : "text-red-600"}>
+            {goal.met ? "✓" : "✗"} {goal.label}
+          </li>
+        ))}
+        {!evaluation && <li className="text-gray-600">Check the goal to grade your structure.</li>}
+      </ul>
+
+      {evaluation && (
+        <p>
+          Edits: {evaluation.edits} (par {puzzle.par})
+        </p>
+      )}
+
+      {hintsShown > 0 && (
+        <ol className="list-decimal list-inside text-gray-700">
+          {puzzle.hints.slice(0, hintsShown).map((hint) => (
+            <li key={hint}>{hint}</li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={onCheck}>
+          Check Goal
+        </Button>
+        {hintsShown < puzzle.hints.length && (
+          <Button size="sm" variant="outline" onClick={() => setHintsShown(hintsShown + 1)}>
+            Hint ({hintsShown + 1}/{puzzle.hints.length})
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={handleRestart}>
+          Restart
+        </Button>
+        <Button size="sm" variant="ghost" asChild>
+          <Link href="/puzzles">All Puzzles</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useRef } from "react";
+
+import { Button } from "@/components/ui/button";
+
+type StructureFileButtonsProps = {
+  fileName: string;
+  /** JSON text of the structure as it is now. */
+  getContents: () => string;
+  /** Receives the text of an uploaded file; validation is up to the game. */
+  onLoad: (text: string) => void;
+  /** Receives a message when the picked file cannot be read. */
+  onError: (message: string) => void;
+};
+
+/**
+ * Download the current structure as a JSON file, or upload one.
+ */
+export function StructureFileButtons({
+  fileName,
+  getContents,
+  onLoad,
+  onError,
+}: StructureFileButtonsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleDownload = () => {
+    const blob = new Blob([getContents()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      onError(`"${file.name}" could not be read.`);
+      return;
+    }
+    onLoad(text);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleDownload}>
+        Download JSON
+      </Button>
+      <Button variant="outline" onClick={() => fileInput.current?.click()}>
+        Upload JSON
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleUpload}
+      />
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+
+import type { GameId } from "@/lib/progress/types"
+
+const storageKey = (game: GameId) => `discreta:free-play:${game}`
+
+const readDraft = (game: GameId) => {
+  try {
+    return window.sessionStorage.getItem(storageKey(game))
+  } catch {
+    return null
+  }
+}
+
+const writeDraft = (game: GameId, encoded: string) => {
+  try {
+    window.sessionStorage.setItem(storageKey(game), encoded)
+  } catch {
+    // Storage full or blocked; the draft is a convenience only
+  }
+}
+
+/**
+ * Keep a game's free-play structure in sessionStorage so opening a puzzle,
+ * which remounts the game, does not lose it. `encoded` is the current
+ * structure in `s` parameter form. While `saving`, every edit after the
+ * first render is written; when the game opens fresh with `offer` set and
+ * a different structure was saved, that draft is returned until it is
+ * restored or dismissed.
+ */
+function useFreePlayDraft(
+  game: GameId,
+  encoded: string,
+  { saving, offer }: { saving: boolean; offer: boolean }
+) {
+  const [draft, setDraft] = React.useState<string | null>(null)
+  const initial = React.useRef(encoded)
+  const edited = React.useRef(false)
+
+  // sessionStorage only exists in the browser, so read it after mounting
+  React.useEffect(() => {
+    if (!offer) return
+    const saved = readDraft(game)
+    if (saved && saved !== initial.current) setDraft(saved)
+  }, [game, offer])
+
+  // Saving only starts with the first edit, so an untouched game does not
+  // overwrite the draft it is offering
+  React.useEffect(() => {
+    if (!saving || (!edited.current && encoded === initial.current)) return
+    edited.current = true
+    writeDraft(game, encoded)
+    setDraft(null)
+  }, [game, encoded, saving])
+
+  const dismiss = React.useCallback(() => setDraft(null), [])
+
+  return { draft, dismiss }
+}
+
+export { useFreePlayDraft }
@@ -0,0 +1,60 @@
+"use client"
+
+import * as React from "react"
+
+import { reportProgress } from "@/lib/progress/client"
+import type { GameId } from "@/lib/progress/types"
+
+// Flush accumulated play time at most this often
+const TIME_FLUSH_INTERVAL = 60_000
+
+/**
+ * Report a game's activity to the progress store: every property check,
+ * solved puzzles, and time spent while the tab is visible.
+ */
+function useGameProgress(game: GameId) {
+  const visibleSince = React.useRef<number | null>(null)
+
+  React.useEffect(() => {
+    const flushTime = () => {
+      if (visibleSince.current === null) return
+      const now = Date.now()
+      const timeSpentMs = now - visibleSince.current
+      visibleSince.current = document.visibilityState === "visible" ? now : null
+      if (timeSpentMs > 0) reportProgress({ game, timeSpentMs })
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        visibleSince.current = Date.now()
+      } else {
+        flushTime()
+      }
+    }
+
+    visibleSince.current =
+      document.visibilityState === "visible" ? Date.now() : null
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    const interval = setInterval(flushTime, TIME_FLUSH_INTERVAL)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      flushTime()
+    }
+  }, [game])
+
+  const recordCheck = React.useCallback(
+    (correct: boolean) =>
+      reportProgress({ game, attempts: 1, correctChecks: correct ? 1 : 0 }),
+    [game]
+  )
+
+  const recordPuzzleSolved = React.useCallback(
+    (puzzleId: string, edits: number) =>
+      reportProgress({ game, puzzlesSolved: 1, puzzleId, edits }),
+    [game]
+  )
+
+  return { recordCheck, recordPuzzleSolved }
+}
+
+export { useGameProgress }
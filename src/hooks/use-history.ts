@@ -0,0 +1,95 @@
+"use client"
+
+import * as React from "react"
+
+// Oldest commands are dropped beyond this many steps
+const HISTORY_LIMIT = 100
+
+/** One recorded edit: the state before and after it, and what it was. */
+type Command<T> = {
+  label: string
+  before: T
+  after: T
+}
+
+type Stacks<T> = {
+  past: Command<T>[]
+  future: Command<T>[]
+}
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA"].includes(target.tagName))
+
+/**
+ * Undo/redo for a game's structure. Every edit is recorded as a command with
+ * `record(label, before, after)`; undoing or redoing hands the state to
+ * `restore` together with a message to show. Ctrl+Z undoes, Ctrl+Y and
+ * Ctrl+Shift+Z redo, except while typing in a text field, where the browser's
+ * own text undo applies.
+ */
+function useHistory<T>(restore: (state: T, message: string) => void) {
+  const [stacks, setStacks] = React.useState<Stacks<T>>({
+    past: [],
+    future: [],
+  })
+
+  const record = React.useCallback((label: string, before: T, after: T) => {
+    setStacks((s) => ({
+      past: [...s.past, { label, before, after }].slice(-HISTORY_LIMIT),
+      future: [],
+    }))
+  }, [])
+
+  const undo = () => {
+    const command = stacks.past[stacks.past.length - 1]
+    if (!command) return
+    setStacks({
+      past: stacks.past.slice(0, -1),
+      future: [command, ...stacks.future],
+    })
+    restore(command.before, `Undid: ${command.label}`)
+  }
+
+  const redo = () => {
+    const [command, ...rest] = stacks.future
+    if (!command) return
+    setStacks({ past: [...stacks.past, command], future: rest })
+    restore(command.after, `Redid: ${command.label}`)
+  }
+
+  // The key listener is registered once and calls the latest handlers
+  const handlers = React.useRef({ undo, redo })
+  React.useEffect(() => {
+    handlers.current = { undo, redo }
+  })
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        handlers.current.undo()
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault()
+        handlers.current.redo()
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    undoLabel: stacks.past[stacks.past.length - 1]?.label,
+    redoLabel: stacks.future[0]?.label,
+  }
+}
+
+export { useHistory }
@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+/**
+ * A well-formed hash that no password matches. Checking against it when an
+ * email is unknown makes that path cost the same scrypt run as a real login.
+ */
+export const DUMMY_PASSWORD_HASH =
+  "scrypt$3eb1c88e31b7629fad7e10a4bedc1ecd$b9f3c6be951a2a941b21ca67d92cfb5d8042ac2591a4c9c5903b36bbf78d69ac5340e6d75ff75ae5d718b307ecd3cefc46d26ca06ba23b03aadbab6d5228db93";
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hash a password with scrypt and a random 16-byte salt. The result is
+ * stored as `scrypt$<salt hex>$<hash hex>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const key = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,84 @@
+import { randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signSessionId,
+  verifySessionToken,
+} from "./token";
+import { findUserById, type StoredUser } from "./users";
+
+const SESSIONS_FILE = "sessions.json";
+
+type StoredSession = {
+  id: string;
+  userId: string;
+  expiresAt: string;
+};
+
+/**
+ * Start a session for `userId` and attach its HTTP-only cookie to `response`.
+ */
+export async function startSession(
+  response: NextResponse,
+  userId: string
+): Promise<void> {
+  const session: StoredSession = {
+    id: randomBytes(32).toString("hex"),
+    userId,
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE * 1000).toISOString(),
+  };
+  await updateJsonFile<StoredSession[], void>(SESSIONS_FILE, [], (sessions) => ({
+    // Drop expired sessions while we are here
+    data: [
+      ...sessions.filter((s) => new Date(s.expiresAt).getTime() > Date.now()),
+      session,
+    ],
+    result: undefined,
+  }));
+  response.cookies.set(SESSION_COOKIE, await signSessionId(session.id), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+}
+
+/**
+ * End the current session (if any) and clear its cookie on `response`.
+ */
+export async function endSession(response: NextResponse): Promise<void> {
+  const cookieStore = await cookies();
+  const sessionId = await verifySessionToken(
+    cookieStore.get(SESSION_COOKIE)?.value
+  );
+  if (sessionId) {
+    await updateJsonFile<StoredSession[], void>(SESSIONS_FILE, [], (sessions) => ({
+      data: sessions.filter((s) => s.id !== sessionId),
+      result: undefined,
+    }));
+  }
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+/**
+ * The user behind the request's session cookie, or null when the cookie is
+ * missing, forged, expired or has been logged out.
+ */
+export async function getSessionUser(): Promise<StoredUser | null> {
+  const cookieStore = await cookies();
+  const sessionId = await verifySessionToken(
+    cookieStore.get(SESSION_COOKIE)?.value
+  );
+  if (!sessionId) return null;
+  const sessions = await readJsonFile<StoredSession[]>(SESSIONS_FILE, []);
+  const session = sessions.find((s) => s.id === sessionId);
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+  return (await findUserById(session.userId)) ?? null;
+}
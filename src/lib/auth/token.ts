@@ -0,0 +1,65 @@
+/**
+ * Session-cookie signing. This file only uses Web Crypto so that it can run
+ * in the middleware (edge runtime) as well as in route handlers.
+ */
+
+export const SESSION_COOKIE = "discreta_session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // one week, in seconds
+
+const DEV_SECRET = "discreta-dev-secret-change-me";
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  return DEV_SECRET;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = "";
+  new Uint8Array(bytes).forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function hmac(value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(sessionSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(value)));
+}
+
+/**
+ * Cookie value for a session id: `<id>.<signature>`.
+ */
+export async function signSessionId(sessionId: string): Promise<string> {
+  return `${sessionId}.${await hmac(sessionId)}`;
+}
+
+/**
+ * The session id inside a cookie value, or null if the signature is wrong.
+ * This proves the cookie was issued by us; whether the session is still
+ * active is decided by the session store.
+ */
+export async function verifySessionToken(
+  token: string | undefined
+): Promise<string | null> {
+  if (!token) return null;
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const sessionId = token.slice(0, dot);
+  const expected = await hmac(sessionId);
+  const given = token.slice(dot + 1);
+  if (expected.length !== given.length) return null;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ given.charCodeAt(i);
+  }
+  return diff === 0 ? sessionId : null;
+}
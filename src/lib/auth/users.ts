@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import { hashPassword } from "./password";
+
+const USERS_FILE = "users.json";
+
+export type StoredUser = {
+  id: string;
+  username: string;
+  email: string;
+  passwordHash: string;
+  createdAt: string;
+};
+
+/** The parts of a user that are safe to send to the browser. */
+export type PublicUser = Pick<StoredUser, "id" | "username" | "email">;
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  return { id: user.id, username: user.username, email: user.email };
+}
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+export async function findUserByEmail(
+  email: string
+): Promise<StoredUser | undefined> {
+  const users = await readJsonFile<StoredUser[]>(USERS_FILE, []);
+  return users.find((u) => u.email === normaliseEmail(email));
+}
+
+export async function findUserById(id: string): Promise<StoredUser | undefined> {
+  const users = await readJsonFile<StoredUser[]>(USERS_FILE, []);
+  return users.find((u) => u.id === id);
+}
+
+/**
+ * Create an account, or return null when the email is already registered.
+ */
+export async function createUser(input: {
+  username: string;
+  email: string;
+  password: string;
+}): Promise<StoredUser | null> {
+  const passwordHash = await hashPassword(input.password);
+  const email = normaliseEmail(input.email);
+  return updateJsonFile<StoredUser[], StoredUser | null>(
+    USERS_FILE,
+    [],
+    (users) => {
+      if (users.some((u) => u.email === email)) {
+        return { data: users, result: null };
+      }
+      const user: StoredUser = {
+        id: randomUUID(),
+        username: input.username.trim(),
+        email,
+        passwordHash,
+        createdAt: new Date().toISOString(),
+      };
+      return { data: [...users, user], result: user };
+    }
+  );
+}
@@ -0,0 +1,222 @@
+import {
+  checkLattice,
+  checkTransitivity,
+  findInfimum,
+  findSupremum,
+  isComparable,
+  transitiveClosure,
+  transitiveReduction,
+  type FiniteOrder,
+  type OrderPair,
+} from "@/lib/order";
+import { createRng, pick, randomInt, shuffle, type Rng } from "./random";
+import type { Exercise, ExerciseKind, OrderExercise } from "./types";
+
+// Retries before settling for a structure that misses the target property
+const MAX_ATTEMPTS = 50;
+
+const LETTERS = ["a", "b", "c", "d", "e", "f"];
+const PERMUTATION_LABELS = ["A", "B", "C", "D", "E", "F", "G"];
+
+export const EXERCISE_KINDS: ExerciseKind[] = [
+  "join",
+  "meet",
+  "is-lattice",
+  "is-transitive",
+  "perm-order",
+  "perm-parity",
+];
+
+/**
+ * A relation on `labels` where each pair (i, j) with i < j is added with
+ * probability `density`, so the result never has a cycle.
+ */
+function randomDag(rng: Rng, labels: string[], density: number): FiniteOrder {
+  return labels.map((value, i) => ({
+    value,
+    relations: labels.filter((_, j) => j > i && rng() < density),
+  }));
+}
+
+/**
+ * A random bounded order on 0, 1 and a few letters, given by its covering
+ * pairs. Bounded orders make the join/meet and lattice questions interesting:
+ * every pair has some bound, but not necessarily a least one.
+ *
+ * Random orders are nearly always lattices, so a non-lattice is produced by
+ * planting a bowtie: two incomparable letters that both sit below two other
+ * incomparable letters. The planted pairs are returned as `low` and `high`;
+ * `low` has no join and `high` has no meet.
+ */
+function randomBoundedOrder(
+  rng: Rng,
+  bowtie = false
+): { order: FiniteOrder; low: OrderPair; high: OrderPair } {
+  const middle = shuffle(rng, LETTERS.slice(0, randomInt(rng, bowtie ? 4 : 3, 5)));
+  const [p, q, u, v] = middle;
+  const dag = randomDag(rng, middle, 0.35).map((el) => {
+    if (!bowtie) return el;
+    if (el.value === p || el.value === q) {
+      return { ...el, relations: [...el.relations.filter((r) => r !== q), u, v] };
+    }
+    return el.value === u
+      ? { ...el, relations: el.relations.filter((r) => r !== v) }
+      : el;
+  });
+  const order: FiniteOrder = [
+    { value: "0", relations: [...middle] },
+    ...dag
+      .map((el) => ({ ...el, relations: [...new Set([...el.relations, "1"])] }))
+      .sort((x, y) => x.value.localeCompare(y.value)),
+    { value: "1", relations: [] },
+  ];
+  return {
+    order: transitiveReduction(transitiveClosure(order)),
+    low: [p, q],
+    high: [u, v],
+  };
+}
+
+/**
+ * Generate until `accept` holds, or give up after MAX_ATTEMPTS and return the
+ * last candidate.
+ */
+function generateUntil<T>(make: () => T, accept: (value: T) => boolean): T {
+  let value = make();
+  for (let i = 1; i < MAX_ATTEMPTS && !accept(value); i++) value = make();
+  return value;
+}
+
+function generateBoundExercise(
+  rng: Rng,
+  id: string,
+  kind: "join" | "meet"
+): OrderExercise {
+  const wantExists = rng() < 0.6;
+  const find = kind === "join" ? findSupremum : findInfimum;
+  if (!wantExists) {
+    const { order, low, high } = randomBoundedOrder(rng, true);
+    const [a, b] = kind === "join" ? low : high;
+    return boundExercise(id, kind, order, a, b);
+  }
+  const { order, pairs } = generateUntil(
+    () => {
+      const { order } = randomBoundedOrder(rng);
+      const letters = order
+        .map((el) => el.value)
+        .filter((v) => v !== "0" && v !== "1");
+      // Incomparable pairs make better questions than x ≤ y
+      const pairs = letters
+        .flatMap((x, i) => letters.slice(i + 1).map((y) => [x, y] as const))
+        .filter(([x, y]) => !isComparable(order, x, y))
+        .filter(([x, y]) => find(order, x, y) !== null);
+      return { order, pairs };
+    },
+    (c) => c.pairs.length > 0
+  );
+  // A chain has no incomparable pair; ask about its two ends instead
+  const [a, b] = pairs.length
+    ? pick(rng, pairs)
+    : [order[1].value, order[order.length - 2].value];
+  return boundExercise(id, kind, order, a, b);
+}
+
+function boundExercise(
+  id: string,
+  kind: "join" | "meet",
+  order: FiniteOrder,
+  a: string,
+  b: string
+): OrderExercise {
+  const symbol = kind === "join" ? "∨" : "∧";
+  return {
+    id,
+    game: "lattices",
+    kind,
+    prompt: `Find the ${kind} ${a} ${symbol} ${b}, or answer "none" if it does not exist.`,
+    order,
+    a,
+    b,
+  };
+}
+
+function generateLatticeExercise(rng: Rng, id: string): OrderExercise {
+  const wantLattice = rng() < 0.5;
+  const { order } = wantLattice
+    ? generateUntil(
+        () => randomBoundedOrder(rng),
+        (c) => checkLattice(c.order).isValid
+      )
+    : randomBoundedOrder(rng, true);
+  return {
+    id,
+    game: "lattices",
+    kind: "is-lattice",
+    prompt: "Is this order a lattice?",
+    order,
+  };
+}
+
+function generateTransitivityExercise(rng: Rng, id: string): OrderExercise {
+  const wantTransitive = rng() < 0.5;
+  const labels = LETTERS.slice(0, randomInt(rng, 4, 5));
+  const order = generateUntil(
+    () => {
+      const dag = randomDag(rng, shuffle(rng, labels), 0.45);
+      return wantTransitive ? transitiveClosure(dag) : dag;
+    },
+    (o) => checkTransitivity(o).isValid === wantTransitive
+  );
+  return {
+    id,
+    game: "posets",
+    kind: "is-transitive",
+    prompt: "Is this relation transitive?",
+    order,
+  };
+}
+
+function generatePermutationExercise(
+  rng: Rng,
+  id: string,
+  kind: "perm-order" | "perm-parity"
+): Exercise {
+  const elements = PERMUTATION_LABELS.slice(0, randomInt(rng, 4, 7));
+  return {
+    id,
+    game: "permutations",
+    kind,
+    prompt:
+      kind === "perm-order"
+        ? "What is the order of σ?"
+        : "Is σ even or odd?",
+    elements,
+    mapping: shuffle(rng, elements),
+  };
+}
+
+/**
+ * A reproducible set of `count` exercises: the same seed always gives the
+ * same questions, so a seed can be shared with a whole class. Kinds are dealt
+ * round-robin from a shuffled list so every set mixes all of them.
+ */
+export function generateExercises(seed: string, count = 8): Exercise[] {
+  const rng = createRng(seed);
+  const kinds = shuffle(rng, EXERCISE_KINDS);
+  return Array.from({ length: count }, (_, i) => {
+    const id = `${seed}-${i + 1}`;
+    const kind = kinds[i % kinds.length];
+    switch (kind) {
+      case "join":
+      case "meet":
+        return generateBoundExercise(rng, id, kind);
+      case "is-lattice":
+        return generateLatticeExercise(rng, id);
+      case "is-transitive":
+        return generateTransitivityExercise(rng, id);
+      case "perm-order":
+      case "perm-parity":
+        return generatePermutationExercise(rng, id, kind);
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import {
+  checkLattice,
+  checkTransitivity,
+  describeBoundFailure,
+  findInfimum,
+  findSupremum,
+  join,
+  meet,
+} from "@/lib/order";
+import { computeCycles, permutationOrder, sign } from "@/lib/permutation";
+import type { AnswerFormat, Exercise, ExerciseGrade } from "./types";
+
+export function answerFormat(exercise: Exercise): AnswerFormat {
+  switch (exercise.kind) {
+    case "join":
+    case "meet":
+      return {
+        type: "element",
+        options: [...exercise.order.map((el) => el.value), "none"],
+      };
+    case "is-lattice":
+    case "is-transitive":
+      return { type: "choice", options: ["yes", "no"] };
+    case "perm-order":
+      return { type: "number" };
+    case "perm-parity":
+      return { type: "choice", options: ["even", "odd"] };
+  }
+}
+
+/** The computed answer to an exercise and a line explaining it. */
+export function solveExercise(
+  exercise: Exercise
+): Omit<ExerciseGrade, "correct"> {
+  switch (exercise.kind) {
+    case "join":
+    case "meet": {
+      const { order, a, b, kind } = exercise;
+      const value =
+        kind === "join" ? findSupremum(order, a, b) : findInfimum(order, a, b);
+      const symbol = kind === "join" ? "∨" : "∧";
+      return value !== null
+        ? { expected: value, explanation: `${a} ${symbol} ${b} = ${value}.` }
+        : {
+            expected: "none",
+            explanation: describeBoundFailure(
+              kind === "join" ? join(order, a, b) : meet(order, a, b),
+              a,
+              b,
+              kind
+            ),
+          };
+    }
+    case "is-lattice":
+    case "is-transitive": {
+      const check =
+        exercise.kind === "is-lattice"
+          ? checkLattice(exercise.order)
+          : checkTransitivity(exercise.order);
+      return check.isValid
+        ? {
+            expected: "yes",
+            explanation:
+              exercise.kind === "is-lattice"
+                ? "Every pair has a join and a meet."
+                : "Whenever x ≤ y and y ≤ z, x ≤ z is listed too.",
+          }
+        : { expected: "no", explanation: check.reason };
+    }
+    case "perm-order": {
+      const cycles = computeCycles(exercise.elements, exercise.mapping);
+      const order = permutationOrder(cycles);
+      const lengths = cycles.map((c) => c.length).join(", ");
+      return {
+        expected: String(order),
+        explanation: `Cycle lengths ${lengths}, so the order is their LCM, ${order}.`,
+      };
+    }
+    case "perm-parity": {
+      const even = sign(exercise.elements, exercise.mapping) === 1;
+      const cycles = computeCycles(exercise.elements, exercise.mapping);
+      const transpositions = cycles.reduce((n, c) => n + c.length - 1, 0);
+      return {
+        expected: even ? "even" : "odd",
+        explanation: `σ is a product of ${transpositions} transposition(s), so it is ${
+          even ? "even" : "odd"
+        }.`,
+      };
+    }
+  }
+}
+
+// Decimal numbers in canonical form, so "06", "+6" and "6.0" all read as "6"
+const canonicalNumber = (text: string) =>
+  /^[+-]?\d+(\.\d*)?$/.test(text) ? String(Number(text)) : text;
+
+/**
+ * Compare an answer with the computed truth. Answers are trimmed and compared
+ * case-insensitively; order labels are compared exactly and numbers by value.
+ */
+export function gradeExercise(exercise: Exercise, answer: string): ExerciseGrade {
+  const solution = solveExercise(exercise);
+  const given = answer.trim();
+  const { type } = answerFormat(exercise);
+  const normalized =
+    type === "number"
+      ? canonicalNumber(given)
+      : type === "element" && given.toLowerCase() !== "none"
+        ? given
+        : given.toLowerCase();
+  return { correct: normalized === solution.expected, ...solution };
+}
@@ -0,0 +1,11 @@
+export type {
+  AnswerFormat,
+  Exercise,
+  ExerciseGrade,
+  ExerciseKind,
+  OrderExercise,
+  PermutationExercise,
+} from "./types";
+export { createRng, randomSeed } from "./random";
+export { EXERCISE_KINDS, generateExercises } from "./generate";
+export { answerFormat, gradeExercise, solveExercise } from "./grade";
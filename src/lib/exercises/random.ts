@@ -0,0 +1,54 @@
+/** A deterministic source of numbers in [0, 1). */
+export type Rng = () => number;
+
+/**
+ * FNV-1a hash of the seed text, so any string (a class code, a date) can be
+ * used as a seed.
+ */
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Mulberry32 generator seeded from `seed`. The same seed always yields the
+ * same sequence, in every browser.
+ */
+export function createRng(seed: string): Rng {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer in [min, max]. */
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+export function pick<T>(rng: Rng, items: T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/** Fisher–Yates shuffle into a new array. */
+export function shuffle<T>(rng: Rng, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** A short random seed to share, e.g. "k3x9qa". */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
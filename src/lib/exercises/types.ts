@@ -0,0 +1,40 @@
+import type { FiniteOrder } from "@/lib/order";
+
+/**
+ * A generated exercise. Only the question is stored: the grader recomputes
+ * the answer from the structure, so an exercise never carries its solution.
+ */
+export type OrderExercise = {
+  id: string;
+  game: "posets" | "lattices";
+  prompt: string;
+  order: FiniteOrder;
+} & (
+  | { kind: "join" | "meet"; a: string; b: string }
+  | { kind: "is-lattice" | "is-transitive" }
+);
+
+export type PermutationExercise = {
+  id: string;
+  game: "permutations";
+  kind: "perm-order" | "perm-parity";
+  prompt: string;
+  elements: string[];
+  mapping: string[];
+};
+
+export type Exercise = OrderExercise | PermutationExercise;
+
+export type ExerciseKind = Exercise["kind"];
+
+/** How answers are typed: free text, a number, or a fixed set of choices. */
+export type AnswerFormat =
+  | { type: "element"; options: string[] }
+  | { type: "number" }
+  | { type: "choice"; options: string[] };
+
+export type ExerciseGrade = {
+  correct: boolean;
+  expected: string;
+  explanation: string;
+};
@@ -0,0 +1,163 @@
+import type { PropertyCheck } from "./properties";
+import { elementValues, leqRelation, reachability } from "./relation";
+import type { FiniteOrder } from "./types";
+
+/**
+ * Chain structure of a poset. `height` is the size of `longestChain`, and
+ * `width` the size of `antichain`, a largest antichain. By Dilworth's
+ * theorem `chains`, a minimum partition into chains, has exactly `width`
+ * chains; each chain is listed from bottom to top.
+ */
+export type ChainDecomposition = {
+  height: number;
+  width: number;
+  longestChain: string[];
+  antichain: string[];
+  chains: string[][];
+};
+
+/**
+ * The strict order x < y: x ≤ y but not y ≤ x. Elements on a common cycle
+ * are not strictly ordered, so this stays acyclic on any relation.
+ */
+function strictOrder(order: FiniteOrder) {
+  const leq = leqRelation(order);
+  return (a: string, b: string) => leq(a, b) && !leq(b, a);
+}
+
+/**
+ * A chain of maximum size, from bottom to top.
+ */
+export function longestChain(order: FiniteOrder): string[] {
+  const less = strictOrder(order);
+  const values = elementValues(order);
+  const best = new Map<string, string[]>();
+  // Longest chain starting at `x`; the strict order is acyclic, so this ends
+  const from = (x: string): string[] => {
+    const known = best.get(x);
+    if (known) return known;
+    let tail: string[] = [];
+    values.forEach((y) => {
+      if (less(x, y)) {
+        const chain = from(y);
+        if (chain.length > tail.length) tail = chain;
+      }
+    });
+    const chain = [x, ...tail];
+    best.set(x, chain);
+    return chain;
+  };
+  return values.reduce<string[]>((longest, x) => {
+    const chain = from(x);
+    return chain.length > longest.length ? chain : longest;
+  }, []);
+}
+
+/**
+ * A minimum chain partition and a maximum antichain, both read off a maximum
+ * matching between "lower" and "upper" copies of the elements (x matched to
+ * y means y follows x in its chain). The antichain comes from König's
+ * theorem: the elements whose lower copy is reachable by an alternating path
+ * from an unmatched lower copy while their upper copy is not.
+ *
+ * Meant for partial orders. On a relation with a cycle, elements of the cycle
+ * count as incomparable here, while `checkAntichain` treats them as
+ * comparable; check antisymmetry of the closure first.
+ */
+export function chainDecomposition(order: FiniteOrder): ChainDecomposition {
+  const less = strictOrder(order);
+  const values = elementValues(order);
+  const next = new Map<string, string>();
+  const prev = new Map<string, string>();
+
+  // Kuhn's augmenting paths
+  const augment = (x: string, seen: Set<string>): boolean => {
+    for (const y of values) {
+      if (!less(x, y) || seen.has(y)) continue;
+      seen.add(y);
+      const owner = prev.get(y);
+      if (owner === undefined || augment(owner, seen)) {
+        next.set(x, y);
+        prev.set(y, x);
+        return true;
+      }
+    }
+    return false;
+  };
+  values.forEach((x) => augment(x, new Set()));
+
+  const chains = values
+    .filter((x) => !prev.has(x))
+    .map((start) => {
+      const chain = [start];
+      for (let y = next.get(start); y !== undefined; y = next.get(y)) {
+        chain.push(y);
+      }
+      return chain;
+    });
+
+  const lowerReached = new Set(values.filter((x) => !next.has(x)));
+  const upperReached = new Set<string>();
+  const queue = [...lowerReached];
+  while (queue.length) {
+    const x = queue.shift()!;
+    values.forEach((y) => {
+      if (!less(x, y) || next.get(x) === y || upperReached.has(y)) return;
+      upperReached.add(y);
+      const owner = prev.get(y);
+      if (owner !== undefined && !lowerReached.has(owner)) {
+        lowerReached.add(owner);
+        queue.push(owner);
+      }
+    });
+  }
+  const antichain = values.filter(
+    (x) => lowerReached.has(x) && !upperReached.has(x)
+  );
+
+  const chain = longestChain(order);
+  return {
+    height: chain.length,
+    width: antichain.length,
+    longestChain: chain,
+    antichain,
+    chains,
+  };
+}
+
+/**
+ * Check that no two distinct members of `subset` are comparable.
+ */
+export function checkAntichain(
+  order: FiniteOrder,
+  subset: string[]
+): PropertyCheck {
+  const reach = reachability(order);
+  for (const a of subset) {
+    for (const b of subset) {
+      if (a !== b && reach.get(a)?.has(b)) {
+        return {
+          isValid: false,
+          reason: `${a} ≤ ${b}, so ${a} and ${b} are comparable.`,
+        };
+      }
+    }
+  }
+  return { isValid: true, reason: "" };
+}
+
+/**
+ * Elements outside `subset` that are incomparable to all of it: the ways an
+ * antichain can be extended. None left means the antichain is maximal.
+ */
+export function antichainExtensions(
+  order: FiniteOrder,
+  subset: string[]
+): string[] {
+  const reach = reachability(order);
+  return elementValues(order).filter(
+    (x) =>
+      !subset.includes(x) &&
+      subset.every((s) => !reach.get(s)?.has(x) && !reach.get(x)?.has(s))
+  );
+}
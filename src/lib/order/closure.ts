@@ -0,0 +1,61 @@
+import { reachability } from "./relation";
+import type { FiniteOrder } from "./types";
+
+/**
+ * Add the loop `a ≤ a` to every element that is missing it.
+ */
+export function reflexiveClosure(order: FiniteOrder): FiniteOrder {
+  return order.map((el) =>
+    el.relations.includes(el.value)
+      ? el
+      : { ...el, relations: [...el.relations, el.value] }
+  );
+}
+
+/**
+ * Add every pair implied by chaining stated relations: whenever `a ≤ b` and
+ * `b ≤ c`, also `a ≤ c`. Existing relations keep their order; new ones are
+ * appended in element order.
+ */
+export function transitiveClosure(order: FiniteOrder): FiniteOrder {
+  const reach = reachability(order);
+  return order.map((el) => {
+    const reachable = reach.get(el.value) ?? new Set<string>();
+    const added = order
+      .map((other) => other.value)
+      .filter((v) => reachable.has(v) && !el.relations.includes(v));
+    return added.length ? { ...el, relations: [...el.relations, ...added] } : el;
+  });
+}
+
+/**
+ * The covering relation (Hasse diagram): keep `a ≤ b` only when `a ≠ b` and
+ * there is no `c` strictly between them. Loops are dropped.
+ *
+ * The result is always a subset of the stated pairs. Elements that sit on a
+ * cycle are left with their stated non-loop edges, since a cyclic relation
+ * has no unique reduction. An element below a cycle keeps the stated edges
+ * into it that nothing outside the cycle separates it from.
+ */
+export function transitiveReduction(order: FiniteOrder): FiniteOrder {
+  const loopFree = order.map((el) => ({
+    ...el,
+    relations: el.relations.filter((b) => b !== el.value),
+  }));
+  const reach = reachability(loopFree);
+  const onCycle = (v: string) => reach.get(v)?.has(v) ?? false;
+
+  return loopFree.map((el) => {
+    const a = el.value;
+    const above = reach.get(a) ?? new Set<string>();
+    if (onCycle(a)) return el;
+    const covers = el.relations.filter((b) => {
+      // b is a cover unless some c with a < c < b exists; a c on the
+      // same cycle as b is not strictly below it
+      const below = (c: string) =>
+        (reach.get(c)?.has(b) ?? false) && !(reach.get(b)?.has(c) ?? false);
+      return ![...above].some((c) => c !== a && c !== b && below(c));
+    });
+    return { ...el, relations: covers };
+  });
+}
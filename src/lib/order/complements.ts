@@ -0,0 +1,144 @@
+import { checkDistributiveTables } from "./distributivity";
+import {
+  checkLatticeTables,
+  orderTables,
+  type BoundResult,
+  type OrderTables,
+} from "./lattice";
+import { elementValues, leqRelation } from "./relation";
+import type { FiniteOrder } from "./types";
+
+/**
+ * Everything the complement/Boolean panel needs about a lattice.
+ *
+ * `complements` maps every element to the elements `b` with `a ∨ b = 1` and
+ * `a ∧ b = 0`. When the lattice is Boolean, `isomorphism` maps each element
+ * to the set of atoms below it, which is its image in the power set of the
+ * atoms.
+ */
+export type ComplementReport = {
+  isBounded: boolean;
+  reason: string;
+  bottom?: string;
+  top?: string;
+  complements: Record<string, string[]>;
+  isComplemented: boolean;
+  isUniquelyComplemented: boolean;
+  isDistributive: boolean;
+  isBoolean: boolean;
+  atoms: string[];
+  isomorphism?: Record<string, string[]>;
+};
+
+/**
+ * The atoms of a lattice with bottom `bottom`: elements that cover it.
+ */
+export function atoms(order: FiniteOrder, bottom: string): string[] {
+  const values = elementValues(order);
+  const leq = leqRelation(order);
+  return values.filter(
+    (a) =>
+      a !== bottom &&
+      leq(bottom, a) &&
+      !values.some((c) => c !== bottom && c !== a && leq(bottom, c) && leq(c, a))
+  );
+}
+
+/**
+ * Every complement of `a` in a bounded lattice with the given bounds.
+ */
+export function complementsOf(
+  order: FiniteOrder,
+  a: string,
+  bottom: string,
+  top: string
+): string[] {
+  return complementsIn(orderTables(order), a, bottom, top);
+}
+
+function complementsIn(
+  tables: OrderTables,
+  a: string,
+  bottom: string,
+  top: string
+): string[] {
+  const value = (r: BoundResult) => (r.ok ? r.value : null);
+  return tables.values.filter(
+    (b) =>
+      value(tables.join(a, b)) === top && value(tables.meet(a, b)) === bottom
+  );
+}
+
+/**
+ * Decide whether the lattice is complemented, uniquely complemented and
+ * Boolean (complemented and distributive), listing each element's
+ * complements along the way.
+ */
+export function analyzeComplements(order: FiniteOrder): ComplementReport {
+  const empty: ComplementReport = {
+    isBounded: false,
+    reason: "",
+    complements: {},
+    isComplemented: false,
+    isUniquelyComplemented: false,
+    isDistributive: false,
+    isBoolean: false,
+    atoms: [],
+  };
+
+  const tables = orderTables(order);
+  const latticeInfo = checkLatticeTables(tables);
+  if (!latticeInfo.isValid) {
+    return { ...empty, reason: `Not a lattice: ${latticeInfo.reason}` };
+  }
+  const { values, leq } = tables;
+  const bottoms = values.filter((v) => values.every((x) => leq(v, x)));
+  const tops = values.filter((v) => values.every((x) => leq(x, v)));
+  if (bottoms.length !== 1 || tops.length !== 1) {
+    return { ...empty, reason: "Not bounded: no unique bottom and top." };
+  }
+  const [bottom, top] = [bottoms[0], tops[0]];
+
+  const complements: Record<string, string[]> = {};
+  values.forEach((a) => {
+    complements[a] = complementsIn(tables, a, bottom, top);
+  });
+  const counts = Object.values(complements).map((c) => c.length);
+  const isComplemented = counts.every((n) => n >= 1);
+  const isUniquelyComplemented = counts.every((n) => n === 1);
+  const isDistributive = checkDistributiveTables(tables).holds;
+  const isBoolean = isComplemented && isDistributive;
+  const latticeAtoms = atoms(order, bottom);
+
+  let isomorphism: Record<string, string[]> | undefined;
+  if (isBoolean) {
+    isomorphism = {};
+    values.forEach((x) => {
+      isomorphism![x] = latticeAtoms.filter((at) => leq(at, x));
+    });
+  }
+
+  let reason = "";
+  if (!isComplemented) {
+    const lonely = Object.keys(complements).filter((a) => !complements[a].length);
+    reason = `Not complemented: ${lonely.join(", ")} ${
+      lonely.length === 1 ? "has" : "have"
+    } no complement.`;
+  } else if (!isDistributive) {
+    reason = "Complemented, but not distributive, so not Boolean.";
+  }
+
+  return {
+    isBounded: true,
+    reason,
+    bottom,
+    top,
+    complements,
+    isComplemented,
+    isUniquelyComplemented,
+    isDistributive,
+    isBoolean,
+    atoms: latticeAtoms,
+    isomorphism,
+  };
+}
@@ -0,0 +1,111 @@
+import { maximalElements, minimalElements } from "./lattice";
+import { withHasseLayout } from "./layout";
+import { elementValues } from "./relation";
+import type { FiniteOrder } from "./types";
+
+/**
+ * Largest result the constructions panel builds; bigger orders make the
+ * lattice checks and the canvas unresponsive.
+ */
+export const MAX_CONSTRUCTED_ELEMENTS = 36;
+
+// Each construction works on the stated relation, so the closure of the
+// result is the construction applied to the closures of its operands.
+// Results are laid out as Hasse diagrams.
+
+/**
+ * `b` with every label that also occurs in `a` primed (x → x′) until the two
+ * label sets are disjoint.
+ */
+function disjointLabels(a: FiniteOrder, b: FiniteOrder): FiniteOrder {
+  const taken = new Set(elementValues(a));
+  const renamed = new Map<string, string>();
+  b.forEach((el) => {
+    let label = el.value;
+    while (taken.has(label)) label += "′";
+    taken.add(label);
+    renamed.set(el.value, label);
+  });
+  return b.map((el) => ({
+    value: renamed.get(el.value)!,
+    relations: el.relations.map((r) => renamed.get(r) ?? r),
+  }));
+}
+
+/**
+ * The Cartesian product A × B with the product order:
+ * (a, b) ≤ (c, d) exactly when a ≤ c and b ≤ d. The pair (a, b) is labelled
+ * `a_b`, which can be typed without quotes; when two pairs would get the same
+ * label (`a_b` with `c`, `a` with `b_c`) the later one is primed.
+ */
+export function productOrder(a: FiniteOrder, b: FiniteOrder): FiniteOrder {
+  const taken = new Set<string>();
+  const labels = new Map<string, string>();
+  const key = (x: string, y: string) => JSON.stringify([x, y]);
+  a.forEach((x) =>
+    b.forEach((y) => {
+      let label = `${x.value}_${y.value}`;
+      while (taken.has(label)) label += "′";
+      taken.add(label);
+      labels.set(key(x.value, y.value), label);
+    })
+  );
+  const pair = (x: string, y: string) => labels.get(key(x, y))!;
+  return withHasseLayout(
+    a.flatMap((x) =>
+      b.map((y) => ({
+        value: pair(x.value, y.value),
+        relations: [
+          ...x.relations.map((r) => pair(r, y.value)),
+          ...y.relations.map((r) => pair(x.value, r)),
+        ],
+      }))
+    )
+  );
+}
+
+/**
+ * The ordinal (linear) sum A ⊕ B: both orders side by side with every
+ * element of A below every element of B. Labels of B that clash with A are
+ * primed.
+ */
+export function ordinalSum(a: FiniteOrder, b: FiniteOrder): FiniteOrder {
+  const upper = disjointLabels(a, b);
+  const tops = maximalElements(a);
+  const bottoms = minimalElements(upper);
+  return withHasseLayout([
+    ...a.map((el) => ({
+      value: el.value,
+      relations: tops.includes(el.value)
+        ? [...el.relations, ...bottoms]
+        : el.relations,
+    })),
+    ...upper,
+  ]);
+}
+
+/**
+ * The disjoint union A + B: both orders side by side, no element of one
+ * comparable to any element of the other. Labels of B that clash with A are
+ * primed.
+ */
+export function disjointUnion(a: FiniteOrder, b: FiniteOrder): FiniteOrder {
+  return withHasseLayout([
+    ...a.map((el) => ({ value: el.value, relations: el.relations })),
+    ...disjointLabels(a, b),
+  ]);
+}
+
+/**
+ * The dual order: every stated pair a ≤ b becomes b ≤ a.
+ */
+export function dualOrder(order: FiniteOrder): FiniteOrder {
+  return withHasseLayout(
+    order.map((el) => ({
+      value: el.value,
+      relations: order
+        .filter((other) => other.relations.includes(el.value))
+        .map((other) => other.value),
+    }))
+  );
+}
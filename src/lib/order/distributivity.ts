@@ -0,0 +1,194 @@
+import {
+  checkLatticeTables,
+  orderTables,
+  type BoundResult,
+  type OrderTables,
+} from "./lattice";
+import type { FiniteOrder } from "./types";
+
+/**
+ * A five-element sublattice that rules out modularity (N5) or
+ * distributivity (M3).
+ *
+ * For N5, `elements` is `[bottom, a, c, b, top]` with `a < c` and `b`
+ * incomparable to both. For M3, it is `[bottom, x, y, z, top]` with `x`, `y`,
+ * `z` pairwise incomparable.
+ */
+export type ForbiddenSublattice = {
+  kind: "N5" | "M3";
+  elements: [string, string, string, string, string];
+};
+
+/** A triple on which a lattice identity fails, with both sides evaluated. */
+export type IdentityViolation = {
+  triple: [string, string, string];
+  identity: string;
+  lhs: string;
+  rhs: string;
+};
+
+/**
+ * Outcome of the distributive or modular check. When the identity fails,
+ * `violation` is the first failing triple and `witness` the embedded N5 or
+ * M3 that explains it.
+ */
+export type IdentityCheck = {
+  holds: boolean;
+  reason: string;
+  violation?: IdentityViolation;
+  witness?: ForbiddenSublattice;
+};
+
+/**
+ * Join and meet lookups for an order already known to be a lattice.
+ */
+function operations(tables: OrderTables) {
+  const value = (r: BoundResult) => (r.ok ? r.value : "");
+  return {
+    vee: (a: string, b: string) => value(tables.join(a, b)),
+    wedge: (a: string, b: string) => value(tables.meet(a, b)),
+  };
+}
+
+/**
+ * Find a pentagon N5 = {0, a, c, b, 1} embedded as a sublattice: `a < c`,
+ * `b` incomparable to both, `a ∨ b = c ∨ b` and `a ∧ b = c ∧ b`.
+ */
+export function findN5(order: FiniteOrder): ForbiddenSublattice | null {
+  const tables = orderTables(order);
+  return checkLatticeTables(tables).isValid ? n5In(tables) : null;
+}
+
+function n5In(tables: OrderTables): ForbiddenSublattice | null {
+  const { vee, wedge } = operations(tables);
+  const { values, leq } = tables;
+  const comparable = (p: string, q: string) => leq(p, q) || leq(q, p);
+
+  for (const a of values) {
+    for (const c of values) {
+      if (a === c || !leq(a, c)) continue;
+      for (const b of values) {
+        if (comparable(a, b) || comparable(c, b)) continue;
+        if (vee(a, b) === vee(c, b) && wedge(a, b) === wedge(c, b)) {
+          return { kind: "N5", elements: [wedge(a, b), a, c, b, vee(a, b)] };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a diamond M3 = {0, x, y, z, 1} embedded as a sublattice: three
+ * pairwise incomparable elements sharing the same pairwise joins and meets.
+ */
+export function findM3(order: FiniteOrder): ForbiddenSublattice | null {
+  const tables = orderTables(order);
+  return checkLatticeTables(tables).isValid ? m3In(tables) : null;
+}
+
+function m3In(tables: OrderTables): ForbiddenSublattice | null {
+  const { vee, wedge } = operations(tables);
+  const { values, leq } = tables;
+  const comparable = (p: string, q: string) => leq(p, q) || leq(q, p);
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      for (let k = j + 1; k < values.length; k++) {
+        const [x, y, z] = [values[i], values[j], values[k]];
+        if (comparable(x, y) || comparable(x, z) || comparable(y, z)) continue;
+        const top = vee(x, y);
+        const bottom = wedge(x, y);
+        if (
+          vee(x, z) === top &&
+          vee(y, z) === top &&
+          wedge(x, z) === bottom &&
+          wedge(y, z) === bottom
+        ) {
+          return { kind: "M3", elements: [bottom, x, y, z, top] };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the distributive law x ∧ (y ∨ z) = (x ∧ y) ∨ (x ∧ z) over all
+ * triples. In a lattice this single law implies its dual.
+ */
+export function checkDistributive(order: FiniteOrder): IdentityCheck {
+  return checkDistributiveTables(orderTables(order));
+}
+
+/**
+ * `checkDistributive` over tables that are already built.
+ */
+export function checkDistributiveTables(tables: OrderTables): IdentityCheck {
+  const latticeInfo = checkLatticeTables(tables);
+  if (!latticeInfo.isValid) {
+    return { holds: false, reason: `Not a lattice: ${latticeInfo.reason}` };
+  }
+  const { vee, wedge } = operations(tables);
+  const { values } = tables;
+
+  for (const x of values) {
+    for (const y of values) {
+      for (const z of values) {
+        const lhs = wedge(x, vee(y, z));
+        const rhs = vee(wedge(x, y), wedge(x, z));
+        if (lhs !== rhs) {
+          return {
+            holds: false,
+            reason: `${x} ∧ (${y} ∨ ${z}) = ${lhs}, but (${x} ∧ ${y}) ∨ (${x} ∧ ${z}) = ${rhs}.`,
+            violation: {
+              triple: [x, y, z],
+              identity: "x ∧ (y ∨ z) = (x ∧ y) ∨ (x ∧ z)",
+              lhs,
+              rhs,
+            },
+            witness: n5In(tables) ?? m3In(tables) ?? undefined,
+          };
+        }
+      }
+    }
+  }
+  return { holds: true, reason: "" };
+}
+
+/**
+ * Check the modular law: x ≤ z implies x ∨ (y ∧ z) = (x ∨ y) ∧ z.
+ */
+export function checkModular(order: FiniteOrder): IdentityCheck {
+  const tables = orderTables(order);
+  const latticeInfo = checkLatticeTables(tables);
+  if (!latticeInfo.isValid) {
+    return { holds: false, reason: `Not a lattice: ${latticeInfo.reason}` };
+  }
+  const { vee, wedge } = operations(tables);
+  const { values, leq } = tables;
+
+  for (const x of values) {
+    for (const z of values) {
+      if (!leq(x, z)) continue;
+      for (const y of values) {
+        const lhs = vee(x, wedge(y, z));
+        const rhs = wedge(vee(x, y), z);
+        if (lhs !== rhs) {
+          return {
+            holds: false,
+            reason: `${x} ≤ ${z}, but ${x} ∨ (${y} ∧ ${z}) = ${lhs} while (${x} ∨ ${y}) ∧ ${z} = ${rhs}.`,
+            violation: {
+              triple: [x, y, z],
+              identity: "x ≤ z ⇒ x ∨ (y ∧ z) = (x ∨ y) ∧ z",
+              lhs,
+              rhs,
+            },
+            witness: n5In(tables) ?? undefined,
+          };
+        }
+      }
+    }
+  }
+  return { holds: true, reason: "" };
+}
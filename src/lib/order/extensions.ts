@@ -0,0 +1,148 @@
+import type { PropertyCheck } from "./properties";
+import { elementValues, reachability } from "./relation";
+import type { FiniteOrder, OrderPair } from "./types";
+
+/** Largest poset whose linear extensions are counted exactly. */
+export const MAX_COUNTED_ELEMENTS = 16;
+
+/**
+ * Result of checking a proposed total order. `conflict` is a pair `[a, b]`
+ * with a < b in the poset that the order puts the other way round.
+ */
+export type ExtensionCheck = PropertyCheck & { conflict?: OrderPair };
+
+/**
+ * For each element, the indices of the elements strictly below it. Elements
+ * on a common cycle are not strictly ordered, so every relation has
+ * extensions.
+ */
+function strictPredecessors(order: FiniteOrder): number[][] {
+  const reach = reachability(order);
+  const values = elementValues(order);
+  const less = (a: string, b: string) =>
+    (reach.get(a)?.has(b) ?? false) && !(reach.get(b)?.has(a) ?? false);
+  return values.map((b) =>
+    values.flatMap((a, i) => (a !== b && less(a, b) ? [i] : []))
+  );
+}
+
+/**
+ * Finish `prefix` with the smallest remaining element (in listing order)
+ * whose predecessors are all placed, which gives the lexicographically
+ * first extension that starts with it.
+ */
+function complete(preds: number[][], prefix: number[]): number[] {
+  const placed = new Set(prefix);
+  const result = [...prefix];
+  while (result.length < preds.length) {
+    const next = preds.findIndex(
+      (p, i) => !placed.has(i) && p.every((j) => placed.has(j))
+    );
+    placed.add(next);
+    result.push(next);
+  }
+  return result;
+}
+
+/**
+ * The first linear extension, taking elements in listing order whenever the
+ * relation leaves a choice.
+ */
+export function firstLinearExtension(order: FiniteOrder): string[] {
+  const values = elementValues(order);
+  return complete(strictPredecessors(order), []).map((i) => values[i]);
+}
+
+/**
+ * The linear extension that follows `current` in lexicographic order (by
+ * listing position), or null when `current` is the last one. Stepping from
+ * `firstLinearExtension` visits every extension exactly once.
+ */
+export function nextLinearExtension(
+  order: FiniteOrder,
+  current: string[]
+): string[] | null {
+  const values = elementValues(order);
+  const preds = strictPredecessors(order);
+  const indices = current.map((v) => values.indexOf(v));
+  for (let pos = indices.length - 2; pos >= 0; pos--) {
+    const placed = new Set(indices.slice(0, pos));
+    const candidate = preds.findIndex(
+      (p, i) =>
+        i > indices[pos] && !placed.has(i) && p.every((j) => placed.has(j))
+    );
+    if (candidate !== -1) {
+      return complete(preds, [...indices.slice(0, pos), candidate]).map(
+        (i) => values[i]
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * The number of linear extensions, counted over the down-sets of the poset.
+ * Returns null above `MAX_COUNTED_ELEMENTS` elements, where the count is too
+ * slow to compute here.
+ */
+export function countLinearExtensions(order: FiniteOrder): number | null {
+  const n = order.length;
+  if (n > MAX_COUNTED_ELEMENTS) return null;
+  const predMasks = strictPredecessors(order).map((p) =>
+    p.reduce((mask, j) => mask | (1 << j), 0)
+  );
+  // ways[mask]: orderings of `mask` as the first |mask| elements
+  const ways = new Array<number>(1 << n).fill(0);
+  ways[0] = 1;
+  for (let mask = 0; mask < 1 << n; mask++) {
+    if (!ways[mask]) continue;
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if (!(mask & bit) && (predMasks[i] & mask) === predMasks[i]) {
+        ways[mask | bit] += ways[mask];
+      }
+    }
+  }
+  return ways[(1 << n) - 1];
+}
+
+/**
+ * Check that `sequence` lists every element once and never puts an element
+ * before one that lies strictly below it.
+ */
+export function checkLinearExtension(
+  order: FiniteOrder,
+  sequence: string[]
+): ExtensionCheck {
+  const values = elementValues(order);
+  const missing = values.find((v) => !sequence.includes(v));
+  if (missing !== undefined) {
+    return { isValid: false, reason: `${missing} is missing from the order.` };
+  }
+  const extra = sequence.find(
+    (v, i) => !values.includes(v) || sequence.indexOf(v) !== i
+  );
+  if (extra !== undefined) {
+    return {
+      isValid: false,
+      reason: values.includes(extra)
+        ? `${extra} appears more than once.`
+        : `${extra} is not an element.`,
+    };
+  }
+  const preds = strictPredecessors(order);
+  for (let i = 0; i < sequence.length; i++) {
+    const below = preds[values.indexOf(sequence[i])];
+    const later = sequence
+      .slice(i + 1)
+      .find((v) => below.includes(values.indexOf(v)));
+    if (later !== undefined) {
+      return {
+        isValid: false,
+        reason: `${later} < ${sequence[i]} in the poset, but ${later} comes later.`,
+        conflict: [later, sequence[i]],
+      };
+    }
+  }
+  return { isValid: true, reason: "" };
+}
@@ -0,0 +1,118 @@
+export type { FiniteOrder, OrderElement, OrderPair } from "./types";
+export type { InputResult, LabelToken } from "./input";
+export {
+  describeInputError,
+  parseLabelList,
+  parseRelationInput,
+} from "./input";
+export type { RelationDiff } from "./relation";
+export {
+  downSet,
+  elementValues,
+  findElement,
+  hasRelation,
+  incomparablePairs,
+  isComparable,
+  isSameStructure,
+  leq,
+  leqRelation,
+  reachability,
+  relationDiff,
+  relationPairs,
+  upSet,
+  withoutElements,
+  withoutPairs,
+  withPairs,
+} from "./relation";
+export {
+  reflexiveClosure,
+  transitiveClosure,
+  transitiveReduction,
+} from "./closure";
+export type {
+  OrderProperty,
+  PosetDiagnostics,
+  PropertyCheck,
+  PropertyViolation,
+} from "./properties";
+export {
+  checkAntisymmetry,
+  checkReflexivity,
+  checkTransitivity,
+  diagnosePoset,
+  findAntisymmetryViolations,
+  findReflexivityViolations,
+  findTransitivityViolations,
+} from "./properties";
+export type { BoundResult, ElementReport, SublatticeCheck } from "./lattice";
+export {
+  analyzeElements,
+  bottomCandidates,
+  checkLattice,
+  checkSublattice,
+  describeBoundFailure,
+  findInfimum,
+  findSupremum,
+  greatestElement,
+  infimumOf,
+  join,
+  leastElement,
+  lowerBounds,
+  lowerBoundsOf,
+  maximalElements,
+  meet,
+  minimalElements,
+  supremumOf,
+  topCandidates,
+  upperBounds,
+  upperBoundsOf,
+} from "./lattice";
+export type {
+  ForbiddenSublattice,
+  IdentityCheck,
+  IdentityViolation,
+} from "./distributivity";
+export {
+  checkDistributive,
+  checkModular,
+  findM3,
+  findN5,
+} from "./distributivity";
+export type { ChainDecomposition } from "./chains";
+export {
+  antichainExtensions,
+  chainDecomposition,
+  checkAntichain,
+  longestChain,
+} from "./chains";
+export type { ComplementReport } from "./complements";
+export type { ExtensionCheck } from "./extensions";
+export {
+  MAX_COUNTED_ELEMENTS,
+  checkLinearExtension,
+  countLinearExtensions,
+  firstLinearExtension,
+  nextLinearExtension,
+} from "./extensions";
+export { analyzeComplements, atoms, complementsOf } from "./complements";
+export type { LayoutOptions, Point } from "./layout";
+export {
+  hasseLayout,
+  rankElements,
+  rankRows,
+  withHasseLayout,
+} from "./layout";
+export {
+  MAX_CONSTRUCTED_ELEMENTS,
+  disjointUnion,
+  dualOrder,
+  ordinalSum,
+  productOrder,
+} from "./constructions";
+export type { OrderPreset, PresetParameter } from "./presets";
+export {
+  ORDER_PRESETS,
+  buildPreset,
+  describePreset,
+  presetArguments,
+} from "./presets";
@@ -0,0 +1,188 @@
+import type { OrderPair } from "./types";
+
+/** A label as typed, with the 0-based offset where it starts. */
+export type LabelToken = { text: string; position: number };
+
+/**
+ * Result of parsing typed input. On failure `position` is the 0-based offset
+ * of the offending character (the input length when it ended too early).
+ */
+export type InputResult<T> =
+  | ({ ok: true; labels: LabelToken[] } & T)
+  | { ok: false; error: string; position: number };
+
+class InputError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(message);
+  }
+}
+
+// Characters that end a bare label; anything else may appear in one
+const isBreak = (ch: string) => /[\s,;{}"<>≤-]/.test(ch);
+
+const describe = (text: string, i: number) =>
+  i < text.length ? `"${text[i]}"` : "the end of the input";
+
+/**
+ * Cursor over the input. Labels are quoted strings (`"x-ray"`), negative
+ * numbers (`-1`) or maximal runs of characters that are not whitespace,
+ * commas, semicolons, braces, quotes or operator symbols.
+ */
+class Scanner {
+  i = 0;
+
+  constructor(readonly text: string) {}
+
+  skipSpace() {
+    while (this.i < this.text.length && /\s/.test(this.text[this.i])) this.i++;
+  }
+
+  atEnd() {
+    this.skipSpace();
+    return this.i >= this.text.length;
+  }
+
+  peek() {
+    this.skipSpace();
+    return this.text[this.i];
+  }
+
+  label(): LabelToken {
+    this.skipSpace();
+    const { text } = this;
+    const start = this.i;
+    if (text[start] === '"') {
+      const close = text.indexOf('"', start + 1);
+      if (close === -1) {
+        throw new InputError("Quoted label opened here is never closed.", start);
+      }
+      const value = text.slice(start + 1, close);
+      if (!value.trim()) throw new InputError("Quoted label is empty.", start);
+      this.i = close + 1;
+      return { text: value, position: start };
+    }
+    let j = start;
+    // A minus sign directly before a digit starts a negative number
+    if (text[j] === "-" && /\d/.test(text[j + 1] ?? "")) j++;
+    while (j < text.length && !isBreak(text[j])) j++;
+    if (j === start) {
+      throw new InputError(`Expected a label but found ${describe(text, start)}.`, start);
+    }
+    this.i = j;
+    return { text: text.slice(start, j), position: start };
+  }
+
+  /** Consume an order operator (≤, <=, <, -> or the legacy -), if present. */
+  operator(): boolean {
+    this.skipSpace();
+    for (const op of ["≤", "<=", "->", "<", "-"]) {
+      if (this.text.startsWith(op, this.i)) {
+        this.i += op.length;
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+function run<T>(text: string, parse: (s: Scanner) => T) {
+  try {
+    return { ok: true as const, ...parse(new Scanner(text)) };
+  } catch (err) {
+    if (err instanceof InputError) {
+      return { ok: false as const, error: err.message, position: err.position };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Parse a list of element labels such as `a, b, c` or `{1, 2, 3, 6, -1}`.
+ * Labels are separated by commas; the braces are optional.
+ */
+export function parseLabelList(text: string): InputResult<object> {
+  return run(text, (s) => {
+    const braced = s.peek() === "{";
+    if (braced) s.i++;
+    const labels: LabelToken[] = [];
+    if (s.atEnd()) throw new InputError("Type at least one label.", s.i);
+    while (!(braced && s.peek() === "}")) {
+      const token = s.label();
+      const first = labels.find((l) => l.text === token.text);
+      if (first) {
+        throw new InputError(
+          `"${token.text}" is listed twice (first at position ${first.position + 1}).`,
+          token.position
+        );
+      }
+      labels.push(token);
+      if (s.peek() !== ",") break;
+      s.i++;
+    }
+    if (braced) {
+      if (s.peek() !== "}") {
+        throw new InputError(`Expected "," or "}" but found ${describe(s.text, s.i)}.`, s.i);
+      }
+      s.i++;
+    }
+    if (!s.atEnd()) {
+      throw new InputError(`Expected "," but found ${describe(s.text, s.i)}.`, s.i);
+    }
+    if (!labels.length) throw new InputError("Type at least one label.", s.i);
+    return { labels };
+  });
+}
+
+/**
+ * Parse relation input: one or more chains separated by commas or
+ * semicolons, where a chain is labels joined by `≤`, `<=`, `<`, `->` or `-`.
+ * `a < b < c, 2 <= 6` gives the pairs a ≤ b, b ≤ c and 2 ≤ 6. Labels with
+ * spaces, operators or commas can be quoted: `"x-ray" -> "y"`.
+ */
+export function parseRelationInput(
+  text: string
+): InputResult<{ pairs: OrderPair[] }> {
+  return run(text, (s) => {
+    const labels: LabelToken[] = [];
+    const pairs: OrderPair[] = [];
+    if (s.atEnd()) throw new InputError("Type a relation such as a ≤ b.", s.i);
+    for (;;) {
+      const chain = [s.label()];
+      while (s.operator()) chain.push(s.label());
+      if (chain.length < 2) {
+        throw new InputError(
+          `Expected ≤, <=, <, -> or - after "${chain[0].text}" but found ${describe(s.text, s.i)}.`,
+          s.i
+        );
+      }
+      labels.push(...chain);
+      for (let k = 1; k < chain.length; k++) {
+        pairs.push([chain[k - 1].text, chain[k].text]);
+      }
+      if (s.atEnd()) break;
+      if (s.peek() !== "," && s.peek() !== ";") {
+        throw new InputError(
+          `Expected "," between relations but found ${describe(s.text, s.i)}.`,
+          s.i
+        );
+      }
+      s.i++;
+    }
+    return { labels, pairs };
+  });
+}
+
+/**
+ * Error message followed by the input and a caret under the offending
+ * character, for display in a pre-wrapped feedback line.
+ */
+export function describeInputError(
+  text: string,
+  error: string,
+  position: number
+): string {
+  return `At position ${position + 1}: ${error}\n${text}\n${" ".repeat(position)}^`;
+}
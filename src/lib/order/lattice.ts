@@ -0,0 +1,392 @@
+import type { PropertyCheck } from "./properties";
+import { elementValues, leqRelation } from "./relation";
+import type { FiniteOrder } from "./types";
+
+/**
+ * Result of a join or meet query. When there is no unique answer, `reason`
+ * tells whether the pair has no common bounds at all (`"no-bounds"`) or
+ * several minimal/maximal ones that are incomparable (`"incomparable"`),
+ * in which case `candidates` lists them.
+ */
+export type BoundResult =
+  | { ok: true; value: string }
+  | { ok: false; reason: "no-bounds"; candidates: string[] }
+  | { ok: false; reason: "incomparable"; candidates: string[] };
+
+type Leq = (a: string, b: string) => boolean;
+
+/**
+ * Comparison, join and meet lookups for one order. Reachability is computed
+ * once and every join or meet is cached, so checks that loop over pairs or
+ * triples only pay for each bound the first time they ask for it.
+ */
+export type OrderTables = {
+  values: string[];
+  leq: Leq;
+  join: (a: string, b: string) => BoundResult;
+  meet: (a: string, b: string) => BoundResult;
+};
+
+/**
+ * The members of `candidates` that have nothing strictly below them
+ * (`direction = "min"`) or strictly above them (`direction = "max"`)
+ * within `candidates`.
+ */
+function extremal(
+  leq: Leq,
+  candidates: string[],
+  direction: "min" | "max"
+): string[] {
+  const below = (x: string, y: string) =>
+    direction === "min" ? leq(x, y) : leq(y, x);
+  return candidates.filter(
+    (c) => !candidates.some((d) => d !== c && below(d, c) && !below(c, d))
+  );
+}
+
+function resolveBound(
+  leq: Leq,
+  bounds: string[],
+  direction: "min" | "max"
+): BoundResult {
+  if (bounds.length === 0) {
+    return { ok: false, reason: "no-bounds", candidates: [] };
+  }
+  const best = extremal(leq, bounds, direction);
+  if (best.length === 1) return { ok: true, value: best[0] };
+  return { ok: false, reason: "incomparable", candidates: best };
+}
+
+/**
+ * Build the lookup tables of an order.
+ */
+export function orderTables(order: FiniteOrder): OrderTables {
+  const values = elementValues(order);
+  const leq = leqRelation(order);
+  const index = new Map(values.map((v, i) => [v, i]));
+
+  const cached = (
+    compute: (a: string, b: string) => BoundResult
+  ): ((a: string, b: string) => BoundResult) => {
+    const cache = new Map<number, BoundResult>();
+    return (a, b) => {
+      const i = index.get(a);
+      const j = index.get(b);
+      if (i === undefined || j === undefined) return compute(a, b);
+      const key = i * values.length + j;
+      let result = cache.get(key);
+      if (!result) {
+        result = compute(a, b);
+        cache.set(key, result);
+      }
+      return result;
+    };
+  };
+
+  return {
+    values,
+    leq,
+    join: cached((a, b) =>
+      resolveBound(
+        leq,
+        values.filter((x) => leq(a, x) && leq(b, x)),
+        "min"
+      )
+    ),
+    meet: cached((a, b) =>
+      resolveBound(
+        leq,
+        values.filter((x) => leq(x, a) && leq(x, b)),
+        "max"
+      )
+    ),
+  };
+}
+
+/**
+ * Every common upper bound of `a` and `b`: { x : a ≤ x and b ≤ x }.
+ */
+export function upperBounds(order: FiniteOrder, a: string, b: string): string[] {
+  return upperBoundsOf(order, [a, b]);
+}
+
+/**
+ * Every common lower bound of `a` and `b`: { x : x ≤ a and x ≤ b }.
+ */
+export function lowerBounds(order: FiniteOrder, a: string, b: string): string[] {
+  return lowerBoundsOf(order, [a, b]);
+}
+
+/**
+ * The join a ∨ b: the least element among the common upper bounds.
+ */
+export function join(order: FiniteOrder, a: string, b: string): BoundResult {
+  return orderTables(order).join(a, b);
+}
+
+/**
+ * The meet a ∧ b: the greatest element among the common lower bounds.
+ */
+export function meet(order: FiniteOrder, a: string, b: string): BoundResult {
+  return orderTables(order).meet(a, b);
+}
+
+/**
+ * The join of `a` and `b`, or null when it does not exist.
+ */
+export function findSupremum(
+  order: FiniteOrder,
+  a: string,
+  b: string
+): string | null {
+  const result = join(order, a, b);
+  return result.ok ? result.value : null;
+}
+
+/**
+ * The meet of `a` and `b`, or null when it does not exist.
+ */
+export function findInfimum(
+  order: FiniteOrder,
+  a: string,
+  b: string
+): string | null {
+  const result = meet(order, a, b);
+  return result.ok ? result.value : null;
+}
+
+/**
+ * Human-readable explanation of a failed join/meet query.
+ */
+export function describeBoundFailure(
+  result: BoundResult,
+  a: string,
+  b: string,
+  kind: "join" | "meet"
+): string {
+  if (result.ok) return "";
+  const side = kind === "join" ? "upper" : "lower";
+  const extreme = kind === "join" ? "least" : "greatest";
+  if (result.reason === "no-bounds") {
+    return `${a} and ${b} have no common ${side} bound.`;
+  }
+  return `${a} and ${b} have no ${extreme} common ${side} bound: ${result.candidates.join(
+    ", "
+  )} are incomparable.`;
+}
+
+/**
+ * `checkLattice` over tables that are already built, so callers that go on
+ * to use the joins and meets compute them only once.
+ */
+export function checkLatticeTables(tables: OrderTables): PropertyCheck {
+  const { values, leq } = tables;
+  for (const a of values) {
+    for (const b of values) {
+      if (a !== b && leq(a, b) && leq(b, a)) {
+        return {
+          isValid: false,
+          reason: `Not a partial order: ${a} ≤ ${b} and ${b} ≤ ${a} through a cycle.`,
+        };
+      }
+    }
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      const [a, b] = [values[i], values[j]];
+      const sup = tables.join(a, b);
+      if (!sup.ok) {
+        return {
+          isValid: false,
+          reason: `Missing join: ${describeBoundFailure(sup, a, b, "join")}`,
+        };
+      }
+      const inf = tables.meet(a, b);
+      if (!inf.ok) {
+        return {
+          isValid: false,
+          reason: `Missing meet: ${describeBoundFailure(inf, a, b, "meet")}`,
+        };
+      }
+    }
+  }
+  return { isValid: true, reason: "" };
+}
+
+/**
+ * Check that the order is a lattice: the relation must be a partial order
+ * (no cycles through distinct elements) and every pair must have a join and
+ * a meet.
+ */
+export function checkLattice(order: FiniteOrder): PropertyCheck {
+  return checkLatticeTables(orderTables(order));
+}
+
+/**
+ * Elements that lie below every element (candidates for a bottom).
+ */
+export function bottomCandidates(order: FiniteOrder): string[] {
+  const values = elementValues(order);
+  const leq = leqRelation(order);
+  return values.filter((v) => values.every((x) => leq(v, x)));
+}
+
+/**
+ * Elements that lie above every element (candidates for a top).
+ */
+export function topCandidates(order: FiniteOrder): string[] {
+  const values = elementValues(order);
+  const leq = leqRelation(order);
+  return values.filter((v) => values.every((x) => leq(x, v)));
+}
+
+/**
+ * Elements with nothing strictly below them.
+ */
+export function minimalElements(order: FiniteOrder): string[] {
+  return extremal(leqRelation(order), elementValues(order), "min");
+}
+
+/**
+ * Elements with nothing strictly above them.
+ */
+export function maximalElements(order: FiniteOrder): string[] {
+  return extremal(leqRelation(order), elementValues(order), "max");
+}
+
+/**
+ * The least element, lying below every element, or null when there is none.
+ */
+export function leastElement(order: FiniteOrder): string | null {
+  const candidates = bottomCandidates(order);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * The greatest element, lying above every element, or null when there is none.
+ */
+export function greatestElement(order: FiniteOrder): string | null {
+  const candidates = topCandidates(order);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Upper bounds of a subset: { x : s ≤ x for every s in `subset` }. The empty
+ * subset is bounded by every element.
+ */
+export function upperBoundsOf(order: FiniteOrder, subset: string[]): string[] {
+  const leq = leqRelation(order);
+  return elementValues(order).filter((x) => subset.every((s) => leq(s, x)));
+}
+
+/**
+ * Lower bounds of a subset: { x : x ≤ s for every s in `subset` }.
+ */
+export function lowerBoundsOf(order: FiniteOrder, subset: string[]): string[] {
+  const leq = leqRelation(order);
+  return elementValues(order).filter((x) => subset.every((s) => leq(x, s)));
+}
+
+/**
+ * The supremum of a subset: the least of its upper bounds.
+ */
+export function supremumOf(order: FiniteOrder, subset: string[]): BoundResult {
+  return resolveBound(leqRelation(order), upperBoundsOf(order, subset), "min");
+}
+
+/**
+ * The infimum of a subset: the greatest of its lower bounds.
+ */
+export function infimumOf(order: FiniteOrder, subset: string[]): BoundResult {
+  return resolveBound(leqRelation(order), lowerBoundsOf(order, subset), "max");
+}
+
+/**
+ * The extremal elements of an order together with the bounds of `subset`,
+ * all read from a single reachability pass.
+ */
+export type ElementReport = {
+  minimal: string[];
+  maximal: string[];
+  least: string | null;
+  greatest: string | null;
+  upperBounds: string[];
+  lowerBounds: string[];
+  supremum: BoundResult;
+  infimum: BoundResult;
+};
+
+/**
+ * Everything the element analysis panel lists, in one pass: what
+ * `minimalElements`, `leastElement`, `upperBoundsOf`, `supremumOf` and their
+ * duals return, without recomputing reachability for each.
+ */
+export function analyzeElements(
+  order: FiniteOrder,
+  subset: string[]
+): ElementReport {
+  const values = elementValues(order);
+  const leq = leqRelation(order);
+  const only = (candidates: string[]) =>
+    candidates.length === 1 ? candidates[0] : null;
+  const upper = values.filter((x) => subset.every((s) => leq(s, x)));
+  const lower = values.filter((x) => subset.every((s) => leq(x, s)));
+  return {
+    minimal: extremal(leq, values, "min"),
+    maximal: extremal(leq, values, "max"),
+    least: only(values.filter((v) => values.every((x) => leq(v, x)))),
+    greatest: only(values.filter((v) => values.every((x) => leq(x, v)))),
+    upperBounds: upper,
+    lowerBounds: lower,
+    supremum: resolveBound(leq, upper, "min"),
+    infimum: resolveBound(leq, lower, "max"),
+  };
+}
+
+/**
+ * Result of a sublattice check. On failure `witness` holds the offending
+ * pair and, when it exists, their join or meet that lies outside the subset.
+ */
+export type SublatticeCheck = PropertyCheck & { witness?: string[] };
+
+/**
+ * Check that a non-empty subset of a lattice is closed under the lattice's
+ * joins and meets.
+ */
+export function checkSublattice(
+  order: FiniteOrder,
+  subset: string[]
+): SublatticeCheck {
+  const tables = orderTables(order);
+  const lattice = checkLatticeTables(tables);
+  if (!lattice.isValid) {
+    return { isValid: false, reason: `The structure is not a lattice. ${lattice.reason}` };
+  }
+  if (!subset.length) {
+    return { isValid: false, reason: "A sublattice must not be empty." };
+  }
+  const value = (r: BoundResult) => (r.ok ? r.value : "");
+  for (let i = 0; i < subset.length; i++) {
+    for (let j = i + 1; j < subset.length; j++) {
+      const [a, b] = [subset[i], subset[j]];
+      const sup = value(tables.join(a, b));
+      if (!subset.includes(sup)) {
+        return {
+          isValid: false,
+          reason: `${a} ∨ ${b} = ${sup} is not in the subset.`,
+          witness: [a, b, sup],
+        };
+      }
+      const inf = value(tables.meet(a, b));
+      if (!subset.includes(inf)) {
+        return {
+          isValid: false,
+          reason: `${a} ∧ ${b} = ${inf} is not in the subset.`,
+          witness: [a, b, inf],
+        };
+      }
+    }
+  }
+  return { isValid: true, reason: "" };
+}
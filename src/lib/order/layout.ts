@@ -0,0 +1,134 @@
+import { transitiveReduction } from "./closure";
+import type { FiniteOrder } from "./types";
+
+/** A 2D position for one element of a diagram. */
+export type Point = { x: number; y: number };
+
+export type LayoutOptions = {
+  xSpacing?: number; // horizontal gap between neighbours in a row
+  ySpacing?: number; // vertical gap between rank rows
+  sweeps?: number; // barycenter passes used to reduce crossings
+};
+
+/**
+ * The rank of every element: the length of the longest chain of covers
+ * leading down to it from a minimal element. Minimal elements get rank 0.
+ */
+export function rankElements(order: FiniteOrder): Record<string, number> {
+  const covers = transitiveReduction(order);
+  const lowerCovers: Record<string, string[]> = {};
+  covers.forEach((el) => {
+    lowerCovers[el.value] ??= [];
+    el.relations.forEach((b) => {
+      (lowerCovers[b] ??= []).push(el.value);
+    });
+  });
+
+  const rank: Record<string, number> = {};
+  const visiting = new Set<string>();
+  const visit = (v: string): number => {
+    if (rank[v] !== undefined) return rank[v];
+    // A cycle has no well-defined rank; treat the back edge as a floor.
+    if (visiting.has(v)) return 0;
+    visiting.add(v);
+    const below = (lowerCovers[v] ?? []).map((u) => visit(u) + 1);
+    visiting.delete(v);
+    rank[v] = below.length ? Math.max(...below) : 0;
+    return rank[v];
+  };
+  order.forEach((el) => visit(el.value));
+  return rank;
+}
+
+// Rank rows run top to bottom, with the highest rank first
+const rowY = (rank: number, maxRank: number, ySpacing: number) =>
+  50 + (maxRank - rank) * ySpacing;
+
+/**
+ * The y coordinate of every element's rank row in `hasseLayout`, for snapping
+ * hand-placed nodes onto the same rows.
+ */
+export function rankRows(
+  order: FiniteOrder,
+  options: LayoutOptions = {}
+): Record<string, number> {
+  const { ySpacing = 120 } = options;
+  const rank = rankElements(order);
+  const maxRank = Math.max(0, ...Object.values(rank));
+  const rows: Record<string, number> = {};
+  Object.entries(rank).forEach(([v, r]) => (rows[v] = rowY(r, maxRank, ySpacing)));
+  return rows;
+}
+
+/**
+ * Layered Hasse layout: one row per rank with minimal elements at the bottom,
+ * rows ordered by a few up/down barycenter sweeps over the covering edges to
+ * reduce crossings.
+ */
+export function hasseLayout(
+  order: FiniteOrder,
+  options: LayoutOptions = {}
+): Record<string, Point> {
+  const { xSpacing = 120, ySpacing = 120, sweeps = 4 } = options;
+  const rank = rankElements(order);
+  const maxRank = Math.max(0, ...Object.values(rank));
+
+  const neighbours: Record<string, { up: string[]; down: string[] }> = {};
+  order.forEach((el) => (neighbours[el.value] = { up: [], down: [] }));
+  transitiveReduction(order).forEach((el) => {
+    el.relations.forEach((b) => {
+      neighbours[el.value].up.push(b);
+      neighbours[b]?.down.push(el.value);
+    });
+  });
+
+  const layers: string[][] = Array.from({ length: maxRank + 1 }, () => []);
+  order.forEach((el) => layers[rank[el.value]].push(el.value));
+
+  const xOf: Record<string, number> = {};
+  const place = (layer: string[]) =>
+    layer.forEach((v, i) => (xOf[v] = i - (layer.length - 1) / 2));
+  layers.forEach(place);
+
+  const reorder = (layer: string[], side: "up" | "down") => {
+    const centre = (v: string) => {
+      const adj = neighbours[v][side];
+      if (!adj.length) return xOf[v];
+      return adj.reduce((sum, u) => sum + xOf[u], 0) / adj.length;
+    };
+    const keyed = layer.map((v) => ({ v, key: centre(v) }));
+    keyed.sort((p, q) => p.key - q.key);
+    keyed.forEach(({ v }, i) => (layer[i] = v));
+    place(layer);
+  };
+
+  for (let s = 0; s < sweeps; s++) {
+    if (s % 2 === 0) {
+      for (let r = 1; r <= maxRank; r++) reorder(layers[r], "down");
+    } else {
+      for (let r = maxRank - 1; r >= 0; r--) reorder(layers[r], "up");
+    }
+  }
+
+  const positions: Record<string, Point> = {};
+  layers.forEach((layer, r) => {
+    layer.forEach((v) => {
+      positions[v] = {
+        x: 250 + xOf[v] * xSpacing,
+        y: rowY(r, maxRank, ySpacing),
+      };
+    });
+  });
+  return positions;
+}
+
+/**
+ * Copy of the order with every element placed by `hasseLayout`.
+ */
+export function withHasseLayout(
+  order: FiniteOrder,
+  options: LayoutOptions = {}
+): FiniteOrder {
+  const layout = hasseLayout(order, options);
+  return order.map((el) => ({ ...el, ...layout[el.value] }));
+}
@@ -0,0 +1,233 @@
+import { withHasseLayout } from "./layout";
+import type { FiniteOrder } from "./types";
+
+/** A numeric parameter of a preset, with its allowed range. */
+export type PresetParameter = {
+  label: string;
+  min: number;
+  max: number;
+  initial: number;
+};
+
+/**
+ * A textbook order built from a few integer parameters. `build` returns the
+ * covering relation only, without positions; see `buildPreset`.
+ */
+export type OrderPreset = {
+  id: string;
+  title: string;
+  description: string;
+  parameters: PresetParameter[];
+  build: (...args: number[]) => FiniteOrder;
+};
+
+/**
+ * Order on `values` whose stated relation is `covers`; positions are left
+ * to the Hasse layout.
+ */
+function fromCovers(
+  values: string[],
+  covers: (a: string, b: string) => boolean
+): FiniteOrder {
+  return values.map((a) => ({
+    value: a,
+    relations: values.filter((b) => a !== b && covers(a, b)),
+  }));
+}
+
+const isPrime = (n: number) => {
+  if (n < 2) return false;
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) return false;
+  return true;
+};
+
+// a, b, c, ... for ground sets and antichains
+const letter = (i: number) => String.fromCharCode(97 + i);
+
+function divisors(n: number): FiniteOrder {
+  const values: string[] = [];
+  for (let d = 1; d <= n; d++) if (n % d === 0) values.push(String(d));
+  return fromCovers(values, (a, b) => {
+    const q = Number(b) / Number(a);
+    return Number.isInteger(q) && isPrime(q);
+  });
+}
+
+function powerSet(k: number): FiniteOrder {
+  const subsets = Array.from({ length: 1 << k }, (_, mask) =>
+    Array.from({ length: k }, (_, i) => i).filter((i) => mask & (1 << i))
+  ).sort((s, t) => s.length - t.length);
+  const label = (s: number[]) => (s.length ? s.map(letter).join("") : "∅");
+  return subsets.map((s) => ({
+    value: label(s),
+    relations: subsets
+      .filter((t) => t.length === s.length + 1 && s.every((i) => t.includes(i)))
+      .map(label),
+  }));
+}
+
+/**
+ * Set partitions of {1, …, k} written as blocks joined by "|", e.g. "13|2".
+ * Finer partitions lie below coarser ones; a cover merges two blocks.
+ */
+function partitions(k: number): FiniteOrder {
+  const all: number[][][] = [];
+  const extend = (blocks: number[][], next: number) => {
+    if (next > k) {
+      all.push(blocks);
+      return;
+    }
+    blocks.forEach((_, i) =>
+      extend(
+        blocks.map((b, j) => (i === j ? [...b, next] : b)),
+        next + 1
+      )
+    );
+    extend([...blocks, [next]], next + 1);
+  };
+  extend([], 1);
+  all.sort((p, q) => q.length - p.length);
+
+  const label = (blocks: number[][]) =>
+    [...blocks]
+      .map((b) => [...b].sort((x, y) => x - y))
+      .sort((b, c) => b[0] - c[0])
+      .map((b) => b.join(""))
+      .join("|");
+  return all.map((blocks) => {
+    const merged = new Set<string>();
+    for (let i = 0; i < blocks.length; i++) {
+      for (let j = i + 1; j < blocks.length; j++) {
+        merged.add(
+          label([
+            ...blocks.filter((_, m) => m !== i && m !== j),
+            [...blocks[i], ...blocks[j]],
+          ])
+        );
+      }
+    }
+    return { value: label(blocks), relations: [...merged] };
+  });
+}
+
+function chain(n: number): FiniteOrder {
+  const values = Array.from({ length: n }, (_, i) => String(i));
+  return fromCovers(values, (a, b) => Number(b) === Number(a) + 1);
+}
+
+function antichain(n: number): FiniteOrder {
+  return fromCovers(Array.from({ length: n }, (_, i) => letter(i)), () => false);
+}
+
+function chainProduct(m: number, n: number): FiniteOrder {
+  const values: string[] = [];
+  for (let i = 0; i < m; i++) {
+    for (let j = 0; j < n; j++) values.push(`${i}_${j}`);
+  }
+  const coords = (v: string) => v.split("_").map(Number);
+  return fromCovers(values, (a, b) => {
+    const [i, j] = coords(a);
+    const [p, q] = coords(b);
+    return (p === i + 1 && q === j) || (p === i && q === j + 1);
+  });
+}
+
+// The maxima keep every preset at 36 elements or fewer (the 6 × 6 grid; no
+// n ≤ 1000 has more than 32 divisors), small enough for the checks and the
+// canvas to stay responsive.
+export const ORDER_PRESETS: OrderPreset[] = [
+  {
+    id: "divisors",
+    title: "Divisors of n",
+    description: "The divisors of n ordered by divisibility.",
+    parameters: [{ label: "n", min: 1, max: 1000, initial: 12 }],
+    build: divisors,
+  },
+  {
+    id: "power-set",
+    title: "Power set",
+    description: "Subsets of a k-element set {a, b, …} ordered by ⊆.",
+    parameters: [{ label: "k", min: 0, max: 5, initial: 3 }],
+    build: powerSet,
+  },
+  {
+    id: "partitions",
+    title: "Partitions",
+    description:
+      "Partitions of {1, …, k} ordered by refinement, finer below coarser.",
+    parameters: [{ label: "k", min: 1, max: 4, initial: 3 }],
+    build: partitions,
+  },
+  {
+    id: "chain",
+    title: "Chain",
+    description: "The total order 0 < 1 < … < n − 1.",
+    parameters: [{ label: "n", min: 1, max: 20, initial: 4 }],
+    build: chain,
+  },
+  {
+    id: "antichain",
+    title: "Antichain",
+    description: "n pairwise incomparable elements.",
+    parameters: [{ label: "n", min: 1, max: 20, initial: 4 }],
+    build: antichain,
+  },
+  {
+    id: "m3",
+    title: "M3 (diamond)",
+    description: "The smallest non-distributive modular lattice.",
+    parameters: [],
+    build: () =>
+      fromCovers(["0", "a", "b", "c", "1"], (x, y) =>
+        x === "0" ? y !== "1" : y === "1"
+      ),
+  },
+  {
+    id: "n5",
+    title: "N5 (pentagon)",
+    description: "The smallest non-modular lattice: 0 < a < b < 1 and 0 < c < 1.",
+    parameters: [],
+    build: () =>
+      fromCovers(["0", "a", "b", "c", "1"], (x, y) =>
+        ["0a", "ab", "b1", "0c", "c1"].includes(x + y)
+      ),
+  },
+  {
+    id: "chain-product",
+    title: "Product of chains",
+    description: "The grid m × n with the componentwise order; (i, j) is labelled i_j.",
+    parameters: [
+      { label: "m", min: 1, max: 6, initial: 3 },
+      { label: "n", min: 1, max: 6, initial: 3 },
+    ],
+    build: chainProduct,
+  },
+];
+
+/**
+ * The parameters rounded and clamped into range; missing ones take their
+ * initial value.
+ */
+export function presetArguments(preset: OrderPreset, args: number[]): number[] {
+  return preset.parameters.map((p, i) =>
+    Math.min(p.max, Math.max(p.min, Math.round(args[i] ?? p.initial)))
+  );
+}
+
+/**
+ * Title with the parameter values, e.g. "Divisors of n (n = 12)".
+ */
+export function describePreset(preset: OrderPreset, args: number[]): string {
+  if (!preset.parameters.length) return preset.title;
+  const values = presetArguments(preset, args);
+  const list = preset.parameters.map((p, i) => `${p.label} = ${values[i]}`);
+  return `${preset.title} (${list.join(", ")})`;
+}
+
+/**
+ * Build a preset from clamped parameters with every element placed by the
+ * Hasse layout.
+ */
+export function buildPreset(preset: OrderPreset, args: number[]): FiniteOrder {
+  return withHasseLayout(preset.build(...presetArguments(preset, args)));
+}
@@ -0,0 +1,145 @@
+import { findElement } from "./relation";
+import type { FiniteOrder, OrderPair } from "./types";
+
+/** Outcome of a single order-axiom check. */
+export type PropertyCheck = {
+  isValid: boolean;
+  reason: string;
+};
+
+export type OrderProperty = "reflexivity" | "antisymmetry" | "transitivity";
+
+/**
+ * One failure of an order axiom. `nodes` and `edges` point at the offending
+ * part of the diagram; `missing` lists pairs that would have to be added to
+ * repair it (the loop for reflexivity, the shortcut for transitivity).
+ */
+export type PropertyViolation = {
+  property: OrderProperty;
+  message: string;
+  nodes: string[];
+  edges: OrderPair[];
+  missing: OrderPair[];
+};
+
+/** Every violation of the partial-order axioms, grouped by property. */
+export type PosetDiagnostics = {
+  isPoset: boolean;
+  violations: PropertyViolation[];
+};
+
+/**
+ * Every element missing its loop a ≤ a.
+ */
+export function findReflexivityViolations(
+  order: FiniteOrder
+): PropertyViolation[] {
+  return order
+    .filter((el) => !el.relations.includes(el.value))
+    .map((el) => ({
+      property: "reflexivity",
+      message: `${el.value} is not related to itself.`,
+      nodes: [el.value],
+      edges: [],
+      missing: [[el.value, el.value]],
+    }));
+}
+
+/**
+ * Every pair of distinct elements with both a ≤ b and b ≤ a, listed once.
+ */
+export function findAntisymmetryViolations(
+  order: FiniteOrder
+): PropertyViolation[] {
+  const violations: PropertyViolation[] = [];
+  order.forEach((el1, i) => {
+    order.slice(i + 1).forEach((el2) => {
+      if (
+        el1.relations.includes(el2.value) &&
+        el2.relations.includes(el1.value)
+      ) {
+        violations.push({
+          property: "antisymmetry",
+          message: `Both "${el1.value} ≤ ${el2.value}" and "${el2.value} ≤ ${el1.value}" found.`,
+          nodes: [el1.value, el2.value],
+          edges: [
+            [el1.value, el2.value],
+            [el2.value, el1.value],
+          ],
+          missing: [],
+        });
+      }
+    });
+  });
+  return violations;
+}
+
+/**
+ * Every missing transitive link a ≤ c, with the first b that implies it.
+ */
+export function findTransitivityViolations(
+  order: FiniteOrder
+): PropertyViolation[] {
+  const violations: PropertyViolation[] = [];
+  for (const el1 of order) {
+    const reported = new Set<string>();
+    for (const rel1 of el1.relations) {
+      const bElement = findElement(order, rel1);
+      if (!bElement) continue;
+      for (const rel2 of bElement.relations) {
+        if (el1.relations.includes(rel2) || reported.has(rel2)) continue;
+        reported.add(rel2);
+        violations.push({
+          property: "transitivity",
+          message: `Missing transitive link: ${el1.value} ≤ ${rel1} and ${rel1} ≤ ${rel2}, but no ${el1.value} ≤ ${rel2}.`,
+          nodes: [el1.value, rel1, rel2],
+          edges: [
+            [el1.value, rel1],
+            [rel1, rel2],
+          ],
+          missing: [[el1.value, rel2]],
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Run all three axiom checks and collect every violation.
+ */
+export function diagnosePoset(order: FiniteOrder): PosetDiagnostics {
+  const violations = [
+    ...findReflexivityViolations(order),
+    ...findAntisymmetryViolations(order),
+    ...findTransitivityViolations(order),
+  ];
+  return { isPoset: violations.length === 0, violations };
+}
+
+function firstFailure(violations: PropertyViolation[]): PropertyCheck {
+  return violations.length
+    ? { isValid: false, reason: violations[0].message }
+    : { isValid: true, reason: "" };
+}
+
+/**
+ * Check reflexivity: a ≤ a for all a in the order.
+ */
+export function checkReflexivity(order: FiniteOrder): PropertyCheck {
+  return firstFailure(findReflexivityViolations(order));
+}
+
+/**
+ * Check antisymmetry: if a ≤ b and b ≤ a, then a = b.
+ */
+export function checkAntisymmetry(order: FiniteOrder): PropertyCheck {
+  return firstFailure(findAntisymmetryViolations(order));
+}
+
+/**
+ * Check transitivity: if a ≤ b and b ≤ c, then a ≤ c.
+ */
+export function checkTransitivity(order: FiniteOrder): PropertyCheck {
+  return firstFailure(findTransitivityViolations(order));
+}
@@ -0,0 +1,193 @@
+import type { FiniteOrder, OrderElement, OrderPair } from "./types";
+
+/**
+ * The element values of an order, in storage order.
+ */
+export function elementValues(order: FiniteOrder): string[] {
+  return order.map((el) => el.value);
+}
+
+/**
+ * Look up an element by its value.
+ */
+export function findElement(
+  order: FiniteOrder,
+  value: string
+): OrderElement | undefined {
+  return order.find((el) => el.value === value);
+}
+
+/**
+ * Is `a ≤ b` stated directly in the adjacency list (no closure applied)?
+ */
+export function hasRelation(order: FiniteOrder, a: string, b: string): boolean {
+  return findElement(order, a)?.relations.includes(b) ?? false;
+}
+
+/**
+ * Every stated pair `[a, b]` with `a ≤ b`, in adjacency-list order.
+ */
+export function relationPairs(order: FiniteOrder): OrderPair[] {
+  const pairs: OrderPair[] = [];
+  order.forEach((el) => {
+    el.relations.forEach((rel) => pairs.push([el.value, rel]));
+  });
+  return pairs;
+}
+
+/**
+ * Rebuild an order from a list of pairs, keeping the elements (and their
+ * coordinates) of `base`. Pairs that mention unknown elements are dropped.
+ */
+export function withPairs(base: FiniteOrder, pairs: OrderPair[]): FiniteOrder {
+  return base.map((el) => {
+    const relations: string[] = [];
+    pairs.forEach(([a, b]) => {
+      if (a === el.value && !relations.includes(b) && findElement(base, b)) {
+        relations.push(b);
+      }
+    });
+    return { ...el, relations };
+  });
+}
+
+/**
+ * Drop the given elements together with every pair that mentions them, so no
+ * element is left relating to a removed one.
+ */
+export function withoutElements(order: FiniteOrder, values: string[]): FiniteOrder {
+  return order
+    .filter((el) => !values.includes(el.value))
+    .map((el) => ({
+      ...el,
+      relations: el.relations.filter((rel) => !values.includes(rel)),
+    }));
+}
+
+/**
+ * Drop the given stated pairs, keeping every element.
+ */
+export function withoutPairs(order: FiniteOrder, pairs: OrderPair[]): FiniteOrder {
+  return order.map((el) => ({
+    ...el,
+    relations: el.relations.filter(
+      (rel) => !pairs.some(([a, b]) => a === el.value && b === rel)
+    ),
+  }));
+}
+
+/**
+ * For every element, the set of elements reachable by following `relations`
+ * one or more times. Elements only reach themselves when they sit on a cycle
+ * or carry an explicit loop.
+ */
+export function reachability(order: FiniteOrder): Map<string, Set<string>> {
+  const adjacency = new Map(order.map((el) => [el.value, el.relations]));
+  const reach = new Map<string, Set<string>>();
+  order.forEach((start) => {
+    const seen = new Set<string>();
+    const stack = [...start.relations];
+    while (stack.length) {
+      const current = stack.pop()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      adjacency.get(current)?.forEach((next) => stack.push(next));
+    }
+    reach.set(start.value, seen);
+  });
+  return reach;
+}
+
+/**
+ * `≤` of the reflexive-transitive closure as a lookup, with reachability
+ * computed once. Use it instead of `leq` when comparing many pairs.
+ */
+export function leqRelation(order: FiniteOrder): (a: string, b: string) => boolean {
+  const reach = reachability(order);
+  return (a, b) => a === b || (reach.get(a)?.has(b) ?? false);
+}
+
+/**
+ * `a ≤ b` in the reflexive-transitive closure of the stated relation.
+ */
+export function leq(order: FiniteOrder, a: string, b: string): boolean {
+  return leqRelation(order)(a, b);
+}
+
+/**
+ * The principal up-set ↑a = { x : a ≤ x }, including `a` itself.
+ */
+export function upSet(order: FiniteOrder, a: string): string[] {
+  const reach = reachability(order).get(a) ?? new Set<string>();
+  return elementValues(order).filter((x) => x === a || reach.has(x));
+}
+
+/**
+ * The principal down-set ↓a = { x : x ≤ a }, including `a` itself.
+ */
+export function downSet(order: FiniteOrder, a: string): string[] {
+  const reach = reachability(order);
+  return elementValues(order).filter(
+    (x) => x === a || (reach.get(x)?.has(a) ?? false)
+  );
+}
+
+/**
+ * Two elements are comparable when `a ≤ b` or `b ≤ a`.
+ */
+export function isComparable(order: FiniteOrder, a: string, b: string): boolean {
+  return leq(order, a, b) || leq(order, b, a);
+}
+
+/**
+ * Every unordered pair of distinct elements that are not comparable.
+ */
+export function incomparablePairs(order: FiniteOrder): OrderPair[] {
+  const values = elementValues(order);
+  const reach = reachability(order);
+  const related = (a: string, b: string) => reach.get(a)?.has(b) ?? false;
+  const pairs: OrderPair[] = [];
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      const [a, b] = [values[i], values[j]];
+      if (!related(a, b) && !related(b, a)) pairs.push([a, b]);
+    }
+  }
+  return pairs;
+}
+
+/** Pairs gained and lost when one relation is turned into another. */
+export type RelationDiff = {
+  added: OrderPair[];
+  removed: OrderPair[];
+};
+
+/**
+ * Compare the stated pairs of two orders over the same elements.
+ */
+export function relationDiff(before: FiniteOrder, after: FiniteOrder): RelationDiff {
+  const key = ([a, b]: OrderPair) => JSON.stringify([a, b]);
+  const beforePairs = relationPairs(before);
+  const afterPairs = relationPairs(after);
+  const beforeKeys = new Set(beforePairs.map(key));
+  const afterKeys = new Set(afterPairs.map(key));
+  return {
+    added: afterPairs.filter((p) => !beforeKeys.has(key(p))),
+    removed: beforePairs.filter((p) => !afterKeys.has(key(p))),
+  };
+}
+
+/**
+ * Do both orders have the same elements and the same stated pairs? Node
+ * positions are ignored, so a moved diagram is still the same structure.
+ */
+export function isSameStructure(a: FiniteOrder, b: FiniteOrder): boolean {
+  const values = elementValues(a);
+  const diff = relationDiff(a, b);
+  return (
+    values.length === b.length &&
+    values.every((v) => findElement(b, v)) &&
+    !diff.added.length &&
+    !diff.removed.length
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * A single element of a finite order, stored as an adjacency list.
+ *
+ * `relations` lists every element this one is stated to be below, i.e.
+ * `b` in `a.relations` means `a ≤ b`. The stored relation does not have to
+ * be reflexive or transitive; the helpers in this module take care of that
+ * where the math calls for it.
+ */
+export type OrderElement = {
+  value: string;
+  relations: string[];
+  x?: number; // optional x-coord for visualization
+  y?: number; // optional y-coord for visualization
+};
+
+/** A finite order is just the list of its elements. */
+export type FiniteOrder = OrderElement[];
+
+/** An ordered pair `[a, b]` standing for `a ≤ b`. */
+export type OrderPair = [string, string];
@@ -0,0 +1,74 @@
+/**
+ * Permutations in this module are given in two-row form over a shared domain
+ * `elements`: `elements[i] ↦ mapping[i]`. Composition follows the usual
+ * right-to-left convention, so `compose(elements, σ, τ)` is σ∘τ, "first τ,
+ * then σ".
+ */
+
+/**
+ * The image of `x`; elements outside the domain are fixed.
+ */
+export function applyPermutation(
+  elements: string[],
+  mapping: string[],
+  x: string
+): string {
+  const i = elements.indexOf(x);
+  return i === -1 ? x : mapping[i];
+}
+
+/** The identity on `elements`. */
+export function identity(elements: string[]): string[] {
+  return [...elements];
+}
+
+/**
+ * outer ∘ inner: apply `inner` first, then `outer`.
+ */
+export function compose(
+  elements: string[],
+  outer: string[],
+  inner: string[]
+): string[] {
+  return elements.map((x) =>
+    applyPermutation(elements, outer, applyPermutation(elements, inner, x))
+  );
+}
+
+/**
+ * The inverse permutation: swap the two rows.
+ */
+export function inverse(elements: string[], mapping: string[]): string[] {
+  return elements.map((y) => elements[mapping.indexOf(y)] ?? y);
+}
+
+/**
+ * σ^k for any integer k (negative powers use the inverse), by repeated
+ * squaring.
+ */
+export function power(elements: string[], mapping: string[], k: number): string[] {
+  let base = k < 0 ? inverse(elements, mapping) : mapping;
+  let n = Math.abs(k);
+  let result = identity(elements);
+  while (n > 0) {
+    if (n % 2 === 1) result = compose(elements, result, base);
+    base = compose(elements, base, base);
+    n = Math.floor(n / 2);
+  }
+  return result;
+}
+
+/**
+ * The commutator [σ, τ] = σ⁻¹ ∘ τ⁻¹ ∘ σ ∘ τ.
+ */
+export function commutator(
+  elements: string[],
+  sigma: string[],
+  tau: string[]
+): string[] {
+  return [
+    inverse(elements, sigma),
+    inverse(elements, tau),
+    sigma,
+  ].reduceRight((acc, p) => compose(elements, p, acc), tau);
+}
@@ -0,0 +1,53 @@
+// Helper to compute GCD (used for LCM)
+export function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Compute the cycle decomposition of a permutation given in two-row form:
+ * `elements[i]` is sent to `permutation[i]`. Every cycle is an array of
+ * element labels, 1-cycles included.
+ *
+ * Example: elements = ["A", "B", "C"], permutation = ["B", "C", "A"] means
+ * A->B, B->C, C->A, a single cycle (A B C).
+ */
+export function computeCycles(elements: string[], permutation: string[]): string[][] {
+  const visited = new Set<number>();
+  const cycles: string[][] = [];
+
+  for (let i = 0; i < elements.length; i++) {
+    if (!visited.has(i)) {
+      const cycle: string[] = [];
+      let current = i;
+      while (current !== -1 && !visited.has(current)) {
+        visited.add(current);
+        cycle.push(elements[current]);
+        // Next = index of permutation[current] in the "elements" array
+        current = elements.indexOf(permutation[current]);
+      }
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * The order of a permutation: the LCM of its cycle lengths.
+ */
+export function permutationOrder(cycles: string[][]): number {
+  return cycles
+    .map((c) => c.length)
+    .reduce((acc, len) => (acc * len) / gcd(acc, len), 1);
+}
+
+/**
+ * Is `mapping` a rearrangement of `elements` (each element used once)?
+ */
+export function isPermutation(elements: string[], mapping: string[]): boolean {
+  return (
+    mapping.length === elements.length &&
+    new Set(mapping).size === elements.length &&
+    mapping.every((v) => elements.includes(v))
+  );
+}
@@ -0,0 +1,275 @@
+import { compose, inverse, power } from "./algebra";
+
+/** One permutation in a flattened product, applied right to left. */
+export type Factor = { label: string; mapping: string[] };
+
+/**
+ * Result of evaluating a permutation expression. `factors` is the product
+ * the expression flattens to (rightmost applied first) and `trace` follows
+ * every element through it, e.g. `A →τ⁻¹ C →σ B`.
+ */
+export type EvaluationResult =
+  | { ok: true; mapping: string[]; factors: Factor[]; trace: string[] }
+  | { ok: false; error: string; position: number };
+
+type Node =
+  | { kind: "name"; name: string; position: number }
+  | { kind: "identity" }
+  | { kind: "compose"; parts: Node[] }
+  | { kind: "power"; base: Node; exponent: number }
+  | { kind: "commutator"; left: Node; right: Node };
+
+class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+const COMPOSE_OPERATORS = ["∘", "*", "·", "."];
+
+/**
+ * Recursive-descent parser for
+ *
+ *   expr    := term ((∘ | * | · | .)? term)*
+ *   term    := factor (⁻¹ | ^k | ^-k | superscript digits)*
+ *   factor  := name | id | ( expr ) | [ expr , expr ]
+ */
+class Parser {
+  private i = 0;
+
+  constructor(private text: string, private names: string[]) {}
+
+  parse(): Node {
+    const node = this.expr();
+    this.skipSpace();
+    if (this.i < this.text.length) {
+      throw new ExpressionError(`Unexpected "${this.text[this.i]}".`, this.i);
+    }
+    return node;
+  }
+
+  private skipSpace() {
+    while (this.i < this.text.length && /\s/.test(this.text[this.i])) this.i++;
+  }
+
+  private peek(): string {
+    this.skipSpace();
+    return this.text[this.i] ?? "";
+  }
+
+  private expr(): Node {
+    const parts = [this.term()];
+    for (;;) {
+      const ch = this.peek();
+      if (COMPOSE_OPERATORS.includes(ch)) {
+        this.i++;
+        parts.push(this.term());
+      } else if (ch && (ch === "(" || ch === "[" || /[\p{L}]/u.test(ch))) {
+        // Juxtaposition: "στ" means σ∘τ
+        parts.push(this.term());
+      } else {
+        break;
+      }
+    }
+    return parts.length === 1 ? parts[0] : { kind: "compose", parts };
+  }
+
+  private term(): Node {
+    let node = this.factor();
+    for (;;) {
+      if (this.text.startsWith("⁻", this.i) || SUPERSCRIPT_DIGITS.includes(this.text[this.i] ?? "_")) {
+        node = { kind: "power", base: node, exponent: this.superscript() };
+      } else if (this.text[this.i] === "^") {
+        this.i++;
+        node = { kind: "power", base: node, exponent: this.integer() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private superscript(): number {
+    const start = this.i;
+    let sign = 1;
+    if (this.text[this.i] === "⁻") {
+      sign = -1;
+      this.i++;
+    }
+    let digits = "";
+    while (SUPERSCRIPT_DIGITS.includes(this.text[this.i] ?? "_")) {
+      digits += SUPERSCRIPT_DIGITS.indexOf(this.text[this.i]);
+      this.i++;
+    }
+    if (!digits) throw new ExpressionError("Expected a superscript exponent.", start);
+    return this.exponent(sign * Number(digits), start);
+  }
+
+  private integer(): number {
+    this.skipSpace();
+    const start = this.i;
+    const match = /^[-−]?\d+/.exec(this.text.slice(this.i));
+    if (!match) throw new ExpressionError('Expected an integer after "^".', this.i);
+    this.i += match[0].length;
+    return this.exponent(Number(match[0].replace("−", "-")), start);
+  }
+
+  // Larger exponents lose precision (or become Infinity) as numbers
+  private exponent(value: number, start: number): number {
+    if (!Number.isSafeInteger(value)) {
+      throw new ExpressionError("Exponent is too large.", start);
+    }
+    return value;
+  }
+
+  private factor(): Node {
+    const ch = this.peek();
+    const start = this.i;
+    if (ch === "(") {
+      this.i++;
+      const inner = this.expr();
+      this.expect(")", start);
+      return inner;
+    }
+    if (ch === "[") {
+      this.i++;
+      const left = this.expr();
+      this.expect(",", start);
+      const right = this.expr();
+      this.expect("]", start);
+      return { kind: "commutator", left, right };
+    }
+    // Longest declared name that matches here, so "σ2" wins over "σ"
+    const name = [...this.names]
+      .sort((a, b) => b.length - a.length)
+      .find((n) => this.text.startsWith(n, this.i));
+    if (name) {
+      this.i += name.length;
+      return { kind: "name", name, position: start };
+    }
+    if (this.text.startsWith("id", this.i)) {
+      this.i += 2;
+      return { kind: "identity" };
+    }
+    if (!ch) throw new ExpressionError("Unexpected end of expression.", this.i);
+    const word = /^[\p{L}\p{N}_']+/u.exec(this.text.slice(this.i))?.[0] ?? ch;
+    throw new ExpressionError(`Unknown permutation "${word}".`, this.i);
+  }
+
+  private expect(token: string, openedAt: number) {
+    if (this.peek() !== token) {
+      throw new ExpressionError(
+        `Expected "${token}" to match the bracket at position ${openedAt + 1}.`,
+        this.i
+      );
+    }
+    this.i++;
+  }
+}
+
+const formatExponent = (k: number) =>
+  k === -1
+    ? "⁻¹"
+    : (k < 0 ? "⁻" : "") +
+      String(Math.abs(k))
+        .split("")
+        .map((d) => SUPERSCRIPT_DIGITS[Number(d)])
+        .join("");
+
+/**
+ * Flatten an expression into a product of factors. Names, inverses and
+ * products stay visible as separate factors; other powers are collapsed into
+ * a single factor so `σ^100` does not explode the trace.
+ */
+function flatten(
+  node: Node,
+  elements: string[],
+  perms: Record<string, string[]>
+): Factor[] {
+  switch (node.kind) {
+    case "identity":
+      return [];
+    case "name":
+      return [{ label: node.name, mapping: perms[node.name] }];
+    case "compose":
+      return node.parts.flatMap((p) => flatten(p, elements, perms));
+    case "commutator": {
+      const left = flatten(node.left, elements, perms);
+      const right = flatten(node.right, elements, perms);
+      return [
+        ...invertFactors(left, elements),
+        ...invertFactors(right, elements),
+        ...left,
+        ...right,
+      ];
+    }
+    case "power": {
+      const base = flatten(node.base, elements, perms);
+      if (node.exponent === 0) return [];
+      if (node.exponent === 1) return base;
+      if (node.exponent === -1) return invertFactors(base, elements);
+      const product = multiply(base, elements);
+      const label =
+        base.length === 1 ? base[0].label : `(${base.map((f) => f.label).join("∘")})`;
+      return [
+        {
+          label: `${label}${formatExponent(node.exponent)}`,
+          mapping: power(elements, product, node.exponent),
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * (f₁∘…∘fₙ)⁻¹ = fₙ⁻¹∘…∘f₁⁻¹.
+ */
+function invertFactors(factors: Factor[], elements: string[]): Factor[] {
+  return [...factors].reverse().map((f) => ({
+    label: f.label.endsWith("⁻¹") ? f.label.slice(0, -2) : `${f.label}⁻¹`,
+    mapping: inverse(elements, f.mapping),
+  }));
+}
+
+/**
+ * Multiply factors right to left.
+ */
+function multiply(factors: Factor[], elements: string[]): string[] {
+  return factors.reduceRight(
+    (acc, f) => compose(elements, f.mapping, acc),
+    [...elements]
+  );
+}
+
+/**
+ * Evaluate an expression such as `σ∘τ⁻¹`, `σ^3`, `(στ)²` or `[σ,τ]` over
+ * the named permutations in `perms`, all given over `elements`.
+ */
+export function evaluateExpression(
+  text: string,
+  elements: string[],
+  perms: Record<string, string[]>
+): EvaluationResult {
+  let ast: Node;
+  try {
+    ast = new Parser(text, Object.keys(perms)).parse();
+  } catch (e) {
+    if (e instanceof ExpressionError) {
+      return { ok: false, error: e.message, position: e.position };
+    }
+    throw e;
+  }
+
+  const factors = flatten(ast, elements, perms);
+  const mapping = multiply(factors, elements);
+  const trace = elements.map((x) => {
+    let current = x;
+    let line = x;
+    [...factors].reverse().forEach((f) => {
+      current = f.mapping[elements.indexOf(current)];
+      line += ` →${f.label} ${current}`;
+    });
+    return line;
+  });
+  return { ok: true, mapping, factors, trace };
+}
@@ -0,0 +1,28 @@
+export { computeCycles, gcd, isPermutation, permutationOrder } from "./cycles";
+export type { ParseResult } from "./notation";
+export {
+  formatCycles,
+  formatOneLine,
+  formatTwoLineLatex,
+  parseCycleNotation,
+  parseOneLineNotation,
+  parsePermutation,
+} from "./notation";
+export {
+  applyPermutation,
+  commutator,
+  compose,
+  identity,
+  inverse,
+  power,
+} from "./algebra";
+export type { EvaluationResult, Factor } from "./expression";
+export { evaluateExpression } from "./expression";
+export type { Transposition } from "./parity";
+export {
+  adjacentTranspositionDecomposition,
+  formatTranspositions,
+  inversions,
+  sign,
+  transpositionDecomposition,
+} from "./parity";
@@ -0,0 +1,226 @@
+import { computeCycles } from "./cycles";
+
+/**
+ * Result of parsing a permutation typed as text. On success the permutation
+ * is given over `elements` in two-row form (`elements[i] ↦ mapping[i]`);
+ * on failure `position` is the 0-based offset of the offending character.
+ */
+export type ParseResult =
+  | { ok: true; elements: string[]; mapping: string[] }
+  | { ok: false; error: string; position: number };
+
+type Token = { text: string; position: number };
+
+const isSeparator = (ch: string) => /[\s,()[\]]/.test(ch);
+
+/**
+ * Split a label run starting at `i`; labels are maximal runs of characters
+ * that are not whitespace, commas, parentheses or brackets.
+ */
+function readLabel(text: string, i: number): Token {
+  let j = i;
+  while (j < text.length && !isSeparator(text[j])) j++;
+  return { text: text.slice(i, j), position: i };
+}
+
+/**
+ * Sort labels numerically when they are all integers, otherwise keep them in
+ * order of first appearance.
+ */
+function naturalDomain(labels: string[]): string[] {
+  return labels.every((l) => /^-?\d+$/.test(l))
+    ? [...labels].sort((a, b) => Number(a) - Number(b))
+    : labels;
+}
+
+/**
+ * Choose the domain for a parsed permutation: the current `elements` when
+ * every label belongs to them, and a fresh domain built from the labels when
+ * none of them is known. Mixing known and unknown labels is an error, reported
+ * as the first unknown label.
+ */
+function resolveDomain(
+  current: string[],
+  labels: Token[]
+): { domain: string[] } | { unknown: Token } {
+  const unknown = labels.filter((l) => !current.includes(l.text));
+  if (!unknown.length) return { domain: current };
+  if (unknown.length === labels.length) {
+    return { domain: naturalDomain(labels.map((l) => l.text)) };
+  }
+  return { unknown: unknown[0] };
+}
+
+/**
+ * Parse cycle notation such as `(A C)(B D E)` or `(1 2 3)(4 5)`. Labels may
+ * be separated by spaces or commas; elements not mentioned are fixed. `()`,
+ * `id` and the empty string denote the identity.
+ */
+export function parseCycleNotation(text: string, elements: string[]): ParseResult {
+  const trimmed = text.trim();
+  if (trimmed === "" || trimmed === "id" || trimmed === "e") {
+    return { ok: true, elements, mapping: [...elements] };
+  }
+
+  const cycles: Token[][] = [];
+  const seen = new Map<string, number>();
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch !== "(") {
+      return { ok: false, error: `Expected "(" but found "${ch}".`, position: i };
+    }
+    const open = i;
+    i++;
+    const cycle: Token[] = [];
+    while (i < text.length && text[i] !== ")") {
+      if (/[\s,]/.test(text[i])) {
+        i++;
+        continue;
+      }
+      if (text[i] === "(" || text[i] === "[" || text[i] === "]") {
+        return { ok: false, error: `Unexpected "${text[i]}" inside a cycle.`, position: i };
+      }
+      const token = readLabel(text, i);
+      if (seen.has(token.text)) {
+        return {
+          ok: false,
+          error: `"${token.text}" appears twice (first at position ${seen.get(token.text)! + 1}).`,
+          position: token.position,
+        };
+      }
+      seen.set(token.text, token.position);
+      cycle.push(token);
+      i += token.text.length;
+    }
+    if (i >= text.length) {
+      return { ok: false, error: `Cycle opened here is never closed with ")".`, position: open };
+    }
+    i++; // skip ")"
+    cycles.push(cycle);
+  }
+
+  const resolved = resolveDomain(
+    elements,
+    [...seen].map(([text, position]) => ({ text, position }))
+  );
+  if ("unknown" in resolved) {
+    return {
+      ok: false,
+      error: `"${resolved.unknown.text}" is not an element.`,
+      position: resolved.unknown.position,
+    };
+  }
+  const { domain } = resolved;
+  const mapping = [...domain];
+  cycles.forEach((cycle) => {
+    cycle.forEach((token, k) => {
+      mapping[domain.indexOf(token.text)] = cycle[(k + 1) % cycle.length].text;
+    });
+  });
+  return { ok: true, elements: domain, mapping };
+}
+
+/**
+ * Parse one-line notation such as `[C A B]` or `3 1 2`: the images of the
+ * domain elements in order. When the labels are exactly 1..n the domain
+ * becomes 1..n; otherwise they must be a rearrangement of `elements`.
+ */
+export function parseOneLineNotation(text: string, elements: string[]): ParseResult {
+  let body = text;
+  let offset = 0;
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) {
+    if (!trimmed.endsWith("]")) {
+      return { ok: false, error: `Missing closing "]".`, position: text.length };
+    }
+    offset = text.indexOf("[") + 1;
+    body = text.slice(offset, text.lastIndexOf("]"));
+  }
+
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < body.length) {
+    if (/[\s,]/.test(body[i])) {
+      i++;
+      continue;
+    }
+    if (isSeparator(body[i])) {
+      return { ok: false, error: `Unexpected "${body[i]}".`, position: offset + i };
+    }
+    const token = readLabel(body, i);
+    tokens.push({ ...token, position: offset + token.position });
+    i += token.text.length;
+  }
+  if (!tokens.length) {
+    return { ok: false, error: "No elements given.", position: 0 };
+  }
+
+  const labels = tokens.map((t) => t.text);
+  const n = labels.length;
+  const isOneToN =
+    labels.every((l) => /^\d+$/.test(l)) &&
+    [...labels].map(Number).sort((a, b) => a - b).every((v, k) => v === k + 1);
+  const domain =
+    isOneToN && !labels.every((l) => elements.includes(l))
+      ? Array.from({ length: n }, (_, k) => String(k + 1))
+      : elements;
+
+  if (n !== domain.length) {
+    return {
+      ok: false,
+      error: `Expected ${domain.length} images (one per element of ${domain.join(", ")}) but got ${n}.`,
+      position: (tokens[domain.length] ?? tokens[n - 1]).position,
+    };
+  }
+  const used = new Set<string>();
+  for (const token of tokens) {
+    if (!domain.includes(token.text)) {
+      return { ok: false, error: `"${token.text}" is not an element.`, position: token.position };
+    }
+    if (used.has(token.text)) {
+      return { ok: false, error: `"${token.text}" is used twice.`, position: token.position };
+    }
+    used.add(token.text);
+  }
+  return { ok: true, elements: domain, mapping: labels };
+}
+
+/**
+ * Parse either notation: text starting with "(" (or `id`) is read as cycle
+ * notation, anything else as one-line notation.
+ */
+export function parsePermutation(text: string, elements: string[]): ParseResult {
+  const trimmed = text.trim();
+  if (trimmed === "" || trimmed.startsWith("(") || trimmed === "id" || trimmed === "e") {
+    return parseCycleNotation(text, elements);
+  }
+  return parseOneLineNotation(text, elements);
+}
+
+/**
+ * Cycle notation with 1-cycles omitted, e.g. `(A C)(B D E)`; `id` for the
+ * identity.
+ */
+export function formatCycles(elements: string[], mapping: string[]): string {
+  const cycles = computeCycles(elements, mapping).filter((c) => c.length > 1);
+  return cycles.length ? cycles.map((c) => `(${c.join(" ")})`).join("") : "id";
+}
+
+/**
+ * One-line notation: the images of the domain in order, e.g. `[B C A]`.
+ */
+export function formatOneLine(mapping: string[]): string {
+  return `[${mapping.join(" ")}]`;
+}
+
+/**
+ * Two-line notation as a LaTeX `pmatrix`.
+ */
+export function formatTwoLineLatex(elements: string[], mapping: string[]): string {
+  return `\\begin{pmatrix} ${elements.join(" & ")} \\\\ ${mapping.join(" & ")} \\end{pmatrix}`;
+}
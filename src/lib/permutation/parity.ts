@@ -0,0 +1,74 @@
+import { computeCycles } from "./cycles";
+
+/** A transposition (a b), swapping two elements. */
+export type Transposition = [string, string];
+
+/**
+ * Every inversion of the permutation with respect to the domain order: index
+ * pairs `[i, j]` with `i < j` whose images appear in the opposite order.
+ */
+export function inversions(elements: string[], mapping: string[]): [number, number][] {
+  const rank = (v: string) => elements.indexOf(v);
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < mapping.length; i++) {
+    for (let j = i + 1; j < mapping.length; j++) {
+      if (rank(mapping[i]) > rank(mapping[j])) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The sign: +1 for even permutations, −1 for odd ones. Computed from the
+ * cycle type as (−1)^(n − number of cycles).
+ */
+export function sign(elements: string[], mapping: string[]): 1 | -1 {
+  const cycles = computeCycles(elements, mapping);
+  return (elements.length - cycles.length) % 2 === 0 ? 1 : -1;
+}
+
+/**
+ * A minimal decomposition into transpositions, read right to left (the last
+ * one is applied first). Each k-cycle (a₁ a₂ … aₖ) becomes
+ * (a₁ aₖ)∘…∘(a₁ a₃)∘(a₁ a₂), giving n − (number of cycles) factors in total.
+ */
+export function transpositionDecomposition(
+  elements: string[],
+  mapping: string[]
+): Transposition[] {
+  return computeCycles(elements, mapping).flatMap((cycle) => {
+    const factors: Transposition[] = [];
+    for (let k = cycle.length - 1; k >= 1; k--) factors.push([cycle[0], cycle[k]]);
+    return factors;
+  });
+}
+
+/**
+ * A decomposition into adjacent transpositions (swaps of neighbours in the
+ * domain order), read right to left. Found by bubble-sorting the one-line
+ * form, so it uses exactly as many factors as there are inversions.
+ */
+export function adjacentTranspositionDecomposition(
+  elements: string[],
+  mapping: string[]
+): Transposition[] {
+  const word = mapping.map((v) => elements.indexOf(v));
+  const swaps: number[] = [];
+  for (let pass = 0; pass < word.length; pass++) {
+    for (let i = 0; i + 1 < word.length - pass; i++) {
+      if (word[i] > word[i + 1]) {
+        [word[i], word[i + 1]] = [word[i + 1], word[i]];
+        swaps.push(i);
+      }
+    }
+  }
+  // mapping ∘ s_{j1} ∘ … ∘ s_{jk} = id, hence mapping = s_{jk} ∘ … ∘ s_{j1}
+  return swaps.reverse().map((i) => [elements[i], elements[i + 1]]);
+}
+
+/**
+ * Write a product of transpositions as `(A B)(A C)`, or `id` when empty.
+ */
+export function formatTranspositions(factors: Transposition[]): string {
+  return factors.length ? factors.map(([a, b]) => `(${a} ${b})`).join("") : "id";
+}
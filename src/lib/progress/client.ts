@@ -0,0 +1,20 @@
+import type { ProgressReport, ProgressSummary } from "./types";
+
+/**
+ * Send a progress report for the signed-in user. Failures are ignored: losing
+ * a data point must never interrupt a game.
+ */
+export function reportProgress(report: ProgressReport): void {
+  fetch("/api/progress", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(report),
+    keepalive: true,
+  }).catch(() => undefined);
+}
+
+export async function fetchProgressSummary(): Promise<ProgressSummary | null> {
+  const res = await fetch("/api/progress");
+  if (!res.ok) return null;
+  return (await res.json()) as ProgressSummary;
+}
@@ -0,0 +1,162 @@
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file";
+import {
+  emptyCounters,
+  GAME_IDS,
+  type GameId,
+  type ProgressCounters,
+  type ProgressReport,
+  type ProgressSummary,
+  type PuzzleCompletion,
+} from "./types";
+
+const PROGRESS_FILE = "progress.json";
+const PUZZLES_FILE = "puzzles.json";
+
+/** One row per user, game and day. */
+type ProgressRow = ProgressCounters & {
+  userId: string;
+  game: GameId;
+  date: string; // YYYY-MM-DD (UTC)
+};
+
+/** One row per user and completed puzzle. */
+type PuzzleRow = PuzzleCompletion & {
+  userId: string;
+  puzzleId: string;
+};
+
+const COUNTER_KEYS: (keyof ProgressCounters)[] = [
+  "attempts",
+  "correctChecks",
+  "puzzlesSolved",
+  "timeSpentMs",
+];
+
+/**
+ * The most one report may add to each counter. Games report one check or one
+ * solve at a time and flush play time every minute, so anything larger is
+ * not a real report.
+ */
+const REPORT_LIMITS: ProgressCounters = {
+  attempts: 1,
+  correctChecks: 1,
+  puzzlesSolved: 1,
+  timeSpentMs: 2 * 60_000,
+};
+
+function capReport(report: Partial<ProgressCounters>): ProgressCounters {
+  const capped = emptyCounters();
+  COUNTER_KEYS.forEach(
+    (key) => (capped[key] = Math.min(report[key] ?? 0, REPORT_LIMITS[key]))
+  );
+  return capped;
+}
+
+function addCounters(target: ProgressCounters, source: Partial<ProgressCounters>) {
+  COUNTER_KEYS.forEach((key) => (target[key] += source[key] ?? 0));
+}
+
+/**
+ * Monday of the (UTC) week containing `date`, as YYYY-MM-DD.
+ */
+function weekStart(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Add a game's report to today's row for the user. A report naming a puzzle
+ * the user has already completed only updates its best edit count; it is
+ * not counted as another solve.
+ */
+export async function recordProgress(
+  userId: string,
+  report: ProgressReport
+): Promise<void> {
+  const { puzzleId } = report;
+  // A check can only pass if it was run, and only a named puzzle is a solve
+  let counters = capReport({
+    ...report,
+    correctChecks: Math.min(report.correctChecks ?? 0, report.attempts ?? 0),
+    puzzlesSolved: puzzleId ? report.puzzlesSolved : 0,
+  });
+  if (puzzleId) {
+    const edits = report.edits ?? 0;
+    const firstSolve = await updateJsonFile<PuzzleRow[], boolean>(
+      PUZZLES_FILE,
+      [],
+      (rows) => {
+        const existing = rows.find(
+          (r) => r.userId === userId && r.puzzleId === puzzleId
+        );
+        if (existing) {
+          existing.bestEdits = Math.min(existing.bestEdits, edits);
+          return { data: rows, result: false };
+        }
+        const completion: PuzzleRow = {
+          userId,
+          puzzleId,
+          completedAt: new Date().toISOString(),
+          bestEdits: edits,
+        };
+        return { data: [...rows, completion], result: true };
+      }
+    );
+    if (!firstSolve) counters = { ...counters, puzzlesSolved: 0 };
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  await updateJsonFile<ProgressRow[], void>(PROGRESS_FILE, [], (rows) => {
+    let row = rows.find(
+      (r) => r.userId === userId && r.game === report.game && r.date === date
+    );
+    if (!row) {
+      row = { userId, game: report.game, date, ...emptyCounters() };
+      rows = [...rows, row];
+    }
+    addCounters(row, counters);
+    return { data: rows, result: undefined };
+  });
+}
+
+/**
+ * Totals per game and for each of the last `weekCount` weeks, plus the
+ * user's completed puzzles.
+ */
+export async function getProgressSummary(
+  userId: string,
+  weekCount = 4
+): Promise<ProgressSummary> {
+  const rows = (await readJsonFile<ProgressRow[]>(PROGRESS_FILE, [])).filter(
+    (r) => r.userId === userId
+  );
+
+  const games = Object.fromEntries(
+    GAME_IDS.map((g) => [g, emptyCounters()])
+  ) as Record<GameId, ProgressCounters>;
+  rows.forEach((r) => addCounters(games[r.game], r));
+
+  const thisWeek = weekStart(new Date().toISOString().slice(0, 10));
+  const weeks = Array.from({ length: weekCount }, (_, i) => {
+    const d = new Date(`${thisWeek}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() - 7 * (weekCount - 1 - i));
+    return { weekStart: d.toISOString().slice(0, 10), counters: emptyCounters() };
+  });
+  rows.forEach((r) => {
+    const week = weeks.find((w) => w.weekStart === weekStart(r.date));
+    if (week) addCounters(week.counters, r);
+  });
+
+  const completedPuzzles: Record<string, PuzzleCompletion> = {};
+  (await readJsonFile<PuzzleRow[]>(PUZZLES_FILE, []))
+    .filter((r) => r.userId === userId)
+    .forEach((r) => {
+      completedPuzzles[r.puzzleId] = {
+        completedAt: r.completedAt,
+        bestEdits: r.bestEdits,
+      };
+    });
+
+  return { games, weeks, completedPuzzles };
+}
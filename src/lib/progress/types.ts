@@ -0,0 +1,51 @@
+export const GAME_IDS = ["lattices", "posets", "permutations"] as const;
+
+export type GameId = (typeof GAME_IDS)[number];
+
+export const GAME_LABELS: Record<GameId, string> = {
+  lattices: "Lattices",
+  posets: "POSET",
+  permutations: "Permutations",
+};
+
+/** The counters a game reports; each report adds these to the totals. */
+export type ProgressCounters = {
+  attempts: number; // property checks run
+  correctChecks: number; // checks that passed
+  puzzlesSolved: number;
+  timeSpentMs: number;
+};
+
+/**
+ * A game's report. When `puzzleId` is set the report marks that puzzle as
+ * completed with `edits` changes.
+ */
+export type ProgressReport = Partial<ProgressCounters> & {
+  game: GameId;
+  puzzleId?: string;
+  edits?: number;
+};
+
+/** First completion time and best edit count for one puzzle. */
+export type PuzzleCompletion = {
+  completedAt: string;
+  bestEdits: number;
+};
+
+/**
+ * Per-game totals, per-week totals (weeks start on Monday, UTC) and the
+ * puzzles the user has completed, by puzzle id.
+ */
+export type ProgressSummary = {
+  games: Record<GameId, ProgressCounters>;
+  weeks: { weekStart: string; counters: ProgressCounters }[];
+  completedPuzzles: Record<string, PuzzleCompletion>;
+};
+
+export function emptyCounters(): ProgressCounters {
+  return { attempts: 0, correctChecks: 0, puzzlesSolved: 0, timeSpentMs: 0 };
+}
+
+export function isGameId(value: unknown): value is GameId {
+  return GAME_IDS.includes(value as GameId);
+}
@@ -0,0 +1,190 @@
+import type { OrderPuzzle, PermutationPuzzle, Puzzle } from "./types";
+
+export const posetPuzzles: OrderPuzzle[] = [
+  {
+    id: "poset-fix-chain",
+    game: "posets",
+    title: "Fix the chain",
+    description:
+      "P → Q → R is not reflexive or transitive yet. Add the missing pairs to make it a POSET.",
+    start: [
+      { value: "P", relations: ["Q"], x: 100, y: 100 },
+      { value: "Q", relations: ["R"], x: 100, y: 250 },
+      { value: "R", relations: [], x: 100, y: 400 },
+    ],
+    requirements: [{ kind: "poset" }],
+    hints: [
+      "Every element must be related to itself.",
+      "P ≤ Q and Q ≤ R force one more pair.",
+    ],
+    par: 4,
+  },
+  {
+    id: "poset-diamond",
+    game: "posets",
+    title: "Complete the diamond",
+    description:
+      "The diamond A → B, A → C, B → D, C → D only lists covering pairs. Turn it into a POSET.",
+    start: [
+      { value: "A", relations: ["B", "C"], x: 180, y: 100 },
+      { value: "B", relations: ["D"], x: 100, y: 250 },
+      { value: "C", relations: ["D"], x: 260, y: 250 },
+      { value: "D", relations: [], x: 180, y: 400 },
+    ],
+    requirements: [{ kind: "poset" }],
+    hints: [
+      "Try the reflexive and transitive closure helpers and count what they add.",
+    ],
+    par: 5,
+  },
+  {
+    id: "poset-break-cycle",
+    game: "posets",
+    title: "Break the cycle",
+    description:
+      "X ≤ Y ≤ Z ≤ X goes round in circles. Make it a POSET with at most 2 edge changes.",
+    start: [
+      { value: "X", relations: ["X", "Y"], x: 100, y: 100 },
+      { value: "Y", relations: ["Y", "Z"], x: 250, y: 250 },
+      { value: "Z", relations: ["Z", "X"], x: 100, y: 400 },
+    ],
+    requirements: [{ kind: "poset" }],
+    maxEdgeChanges: 2,
+    hints: [
+      "A cycle through distinct elements always breaks antisymmetry.",
+      "Reverse one edge of the cycle.",
+    ],
+    par: 2,
+  },
+];
+
+export const latticePuzzles: OrderPuzzle[] = [
+  {
+    id: "lattice-bowtie",
+    game: "lattices",
+    title: "Untie the bowtie",
+    description:
+      "a and b both sit below c and d, so a ∨ b is ambiguous. Make it a lattice with at most 1 edge change.",
+    start: [
+      { value: "0", relations: ["a", "b"], x: 180, y: 400 },
+      { value: "a", relations: ["c", "d"], x: 100, y: 300 },
+      { value: "b", relations: ["c", "d"], x: 260, y: 300 },
+      { value: "c", relations: ["1"], x: 100, y: 200 },
+      { value: "d", relations: ["1"], x: 260, y: 200 },
+      { value: "1", relations: [], x: 180, y: 100 },
+    ],
+    requirements: [{ kind: "lattice" }],
+    maxEdgeChanges: 1,
+    hints: ["The two minimal upper bounds of a and b must become comparable."],
+    par: 1,
+  },
+  {
+    id: "lattice-pentagon",
+    game: "lattices",
+    title: "Tame the pentagon",
+    description:
+      "This is N5, the smallest non-modular lattice. Make it a distributive lattice with at most 1 edge change.",
+    start: [
+      { value: "0", relations: ["a", "b"], x: 180, y: 400 },
+      { value: "a", relations: ["c"], x: 100, y: 300 },
+      { value: "c", relations: ["1"], x: 100, y: 200 },
+      { value: "b", relations: ["1"], x: 260, y: 250 },
+      { value: "1", relations: [], x: 180, y: 100 },
+    ],
+    requirements: [{ kind: "lattice" }, { kind: "distributive" }],
+    maxEdgeChanges: 1,
+    hints: [
+      "Check Distributivity highlights the N5 you need to destroy.",
+      "Put b below c.",
+    ],
+    par: 1,
+  },
+  {
+    id: "lattice-boolean-square",
+    game: "lattices",
+    title: "Build a Boolean square",
+    description:
+      "Connect 0, p, q and 1 into a Boolean lattice.",
+    start: [
+      { value: "0", relations: [], x: 180, y: 400 },
+      { value: "p", relations: [], x: 100, y: 250 },
+      { value: "q", relations: [], x: 260, y: 250 },
+      { value: "1", relations: [], x: 180, y: 100 },
+    ],
+    requirements: [{ kind: "lattice" }, { kind: "boolean" }],
+    hints: [
+      "A Boolean lattice with two atoms is the power set of a 2-element set.",
+      "p and q must be each other's complement.",
+    ],
+    par: 4,
+  },
+  {
+    id: "lattice-missing-bottom",
+    game: "lattices",
+    title: "Find the floor",
+    description:
+      "a and b share the top 1 but have no common lower bound. Add one new element to make it a lattice with at most 2 edge changes.",
+    start: [
+      { value: "a", relations: ["1"], x: 100, y: 250 },
+      { value: "b", relations: ["1"], x: 260, y: 250 },
+      { value: "1", relations: [], x: 180, y: 100 },
+    ],
+    requirements: [{ kind: "lattice" }],
+    maxEdgeChanges: 2,
+    hints: [
+      "Every pair of elements needs a meet.",
+      "A new bottom element below a and b supplies it.",
+    ],
+    par: 2,
+  },
+];
+
+export const permutationPuzzles: PermutationPuzzle[] = [
+  {
+    id: "perm-order-six",
+    game: "permutations",
+    title: "Order six",
+    description: "Find a permutation of A–E whose order is 6.",
+    start: { elements: ["A", "B", "C", "D", "E"], mapping: ["A", "B", "C", "D", "E"] },
+    requirements: [{ kind: "order", value: 6 }],
+    hints: ["The order is the LCM of the cycle lengths.", "Try a 3-cycle and a 2-cycle."],
+    par: 5,
+  },
+  {
+    id: "perm-odd-four",
+    game: "permutations",
+    title: "Odd one out",
+    description: "Find an odd permutation of A–D with order 4.",
+    start: { elements: ["A", "B", "C", "D"], mapping: ["A", "B", "C", "D"] },
+    requirements: [
+      { kind: "parity", value: "odd" },
+      { kind: "order", value: 4 },
+    ],
+    hints: ["A k-cycle is a product of k − 1 transpositions."],
+    par: 4,
+  },
+  {
+    id: "perm-even-derangement",
+    game: "permutations",
+    title: "Even derangement",
+    description: "Move every element of A–D, using an even permutation that is not a 3-cycle.",
+    start: { elements: ["A", "B", "C", "D"], mapping: ["A", "B", "C", "D"] },
+    requirements: [
+      { kind: "fixed-points", value: 0 },
+      { kind: "parity", value: "even" },
+      { kind: "cycle-type", lengths: [2, 2] },
+    ],
+    hints: ["Two disjoint transpositions."],
+    par: 4,
+  },
+];
+
+export const allPuzzles: Puzzle[] = [
+  ...posetPuzzles,
+  ...latticePuzzles,
+  ...permutationPuzzles,
+];
+
+export function findPuzzle(id: string | undefined): Puzzle | undefined {
+  return allPuzzles.find((p) => p.id === id);
+}
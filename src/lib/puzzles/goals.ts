@@ -0,0 +1,146 @@
+import {
+  analyzeComplements,
+  bottomCandidates,
+  checkDistributive,
+  checkLattice,
+  checkModular,
+  diagnosePoset,
+  relationDiff,
+  topCandidates,
+  type FiniteOrder,
+} from "@/lib/order";
+import {
+  computeCycles,
+  isPermutation,
+  permutationOrder,
+  sign,
+} from "@/lib/permutation";
+import type {
+  OrderPuzzle,
+  OrderRequirement,
+  PermutationPuzzle,
+  PermutationRequirement,
+  PuzzleEvaluation,
+} from "./types";
+
+export function describeOrderRequirement(req: OrderRequirement): string {
+  switch (req.kind) {
+    case "poset":
+      return "It is a POSET";
+    case "lattice":
+      return "It is a lattice";
+    case "bounded":
+      return "It has a bottom and a top";
+    case "distributive":
+      return "It is a distributive lattice";
+    case "modular":
+      return "It is a modular lattice";
+    case "complemented":
+      return "Every element has a complement";
+    case "boolean":
+      return "It is a Boolean lattice";
+  }
+}
+
+export function describePermutationRequirement(req: PermutationRequirement): string {
+  switch (req.kind) {
+    case "order":
+      return `Its order is ${req.value}`;
+    case "parity":
+      return `It is ${req.value}`;
+    case "fixed-points":
+      return req.value === 0
+        ? "It has no fixed points"
+        : `It has exactly ${req.value} fixed point(s)`;
+    case "cycle-type":
+      return `Its cycle type is (${req.lengths.join(", ")})`;
+  }
+}
+
+function meetsOrderRequirement(order: FiniteOrder, req: OrderRequirement): boolean {
+  switch (req.kind) {
+    case "poset":
+      return diagnosePoset(order).isPoset;
+    case "lattice":
+      return checkLattice(order).isValid;
+    case "bounded":
+      return bottomCandidates(order).length === 1 && topCandidates(order).length === 1;
+    case "distributive":
+      return checkDistributive(order).holds;
+    case "modular":
+      return checkModular(order).holds;
+    case "complemented":
+      return analyzeComplements(order).isComplemented;
+    case "boolean":
+      return analyzeComplements(order).isBoolean;
+  }
+}
+
+/**
+ * Number of pairs added or removed since the puzzle's starting structure.
+ */
+export function countEdgeChanges(start: FiniteOrder, current: FiniteOrder): number {
+  const diff = relationDiff(start, current);
+  return diff.added.length + diff.removed.length;
+}
+
+export function evaluateOrderPuzzle(
+  puzzle: OrderPuzzle,
+  order: FiniteOrder
+): PuzzleEvaluation {
+  const edits = countEdgeChanges(puzzle.start, order);
+  const goals = puzzle.requirements.map((req) => ({
+    label: describeOrderRequirement(req),
+    met: meetsOrderRequirement(order, req),
+  }));
+  if (puzzle.maxEdgeChanges !== undefined) {
+    goals.push({
+      label: `At most ${puzzle.maxEdgeChanges} edge change(s) (used ${edits})`,
+      met: edits <= puzzle.maxEdgeChanges,
+    });
+  }
+  return { solved: goals.every((g) => g.met), goals, edits };
+}
+
+function meetsPermutationRequirement(
+  elements: string[],
+  mapping: string[],
+  req: PermutationRequirement
+): boolean {
+  const cycles = computeCycles(elements, mapping);
+  switch (req.kind) {
+    case "order":
+      return permutationOrder(cycles) === req.value;
+    case "parity":
+      return (sign(elements, mapping) === 1) === (req.value === "even");
+    case "fixed-points":
+      return cycles.filter((c) => c.length === 1).length === req.value;
+    case "cycle-type": {
+      const lengths = cycles
+        .map((c) => c.length)
+        .filter((l) => l > 1)
+        .sort((a, b) => b - a);
+      const wanted = [...req.lengths].sort((a, b) => b - a);
+      return lengths.join() === wanted.join();
+    }
+  }
+}
+
+export function evaluatePermutationPuzzle(
+  puzzle: PermutationPuzzle,
+  elements: string[],
+  mapping: string[]
+): PuzzleEvaluation {
+  const edits = elements.filter(
+    (x, i) => puzzle.start.mapping[puzzle.start.elements.indexOf(x)] !== mapping[i]
+  ).length;
+  const valid = isPermutation(elements, mapping);
+  const goals = [
+    { label: "It is a valid permutation", met: valid },
+    ...puzzle.requirements.map((req) => ({
+      label: describePermutationRequirement(req),
+      met: valid && meetsPermutationRequirement(elements, mapping, req),
+    })),
+  ];
+  return { solved: goals.every((g) => g.met), goals, edits };
+}
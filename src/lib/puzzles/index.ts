@@ -0,0 +1,22 @@
+export type {
+  OrderPuzzle,
+  OrderRequirement,
+  PermutationPuzzle,
+  PermutationRequirement,
+  Puzzle,
+  PuzzleEvaluation,
+} from "./types";
+export {
+  allPuzzles,
+  findPuzzle,
+  latticePuzzles,
+  permutationPuzzles,
+  posetPuzzles,
+} from "./catalog";
+export {
+  countEdgeChanges,
+  describeOrderRequirement,
+  describePermutationRequirement,
+  evaluateOrderPuzzle,
+  evaluatePermutationPuzzle,
+} from "./goals";
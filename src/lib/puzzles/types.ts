@@ -0,0 +1,57 @@
+import type { OrderElement } from "@/lib/order";
+
+/** Properties an order puzzle can ask for. */
+export type OrderRequirement =
+  | { kind: "poset" }
+  | { kind: "lattice" }
+  | { kind: "bounded" }
+  | { kind: "distributive" }
+  | { kind: "modular" }
+  | { kind: "complemented" }
+  | { kind: "boolean" };
+
+/** Properties a permutation puzzle can ask for. */
+export type PermutationRequirement =
+  | { kind: "order"; value: number }
+  | { kind: "parity"; value: "even" | "odd" }
+  | { kind: "fixed-points"; value: number }
+  | { kind: "cycle-type"; lengths: number[] };
+
+type PuzzleBase = {
+  id: string;
+  title: string;
+  description: string;
+  hints: string[];
+  par: number; // edits an expert needs
+};
+
+/**
+ * A poset or lattice puzzle: start from `start` and reach a structure that
+ * meets every requirement, using at most `maxEdgeChanges` added or removed
+ * pairs when given. Edits are counted as changed pairs.
+ */
+export type OrderPuzzle = PuzzleBase & {
+  game: "posets" | "lattices";
+  start: OrderElement[];
+  requirements: OrderRequirement[];
+  maxEdgeChanges?: number;
+};
+
+/**
+ * A permutation puzzle: edit the two-row table until the permutation meets
+ * every requirement. Edits are counted as changed images.
+ */
+export type PermutationPuzzle = PuzzleBase & {
+  game: "permutations";
+  start: { elements: string[]; mapping: string[] };
+  requirements: PermutationRequirement[];
+};
+
+export type Puzzle = OrderPuzzle | PermutationPuzzle;
+
+/** The state of every goal line plus the edit count so far. */
+export type PuzzleEvaluation = {
+  solved: boolean;
+  goals: { label: string; met: boolean }[];
+  edits: number;
+};
@@ -0,0 +1,220 @@
+import type { FiniteOrder } from "@/lib/order";
+import {
+  FILE_FORMAT,
+  FILE_VERSION,
+  type DocumentResult,
+  type OrderDocument,
+  type OrderKind,
+  type PermutationDocument,
+  type StructureDocument,
+  type StructureKind,
+} from "./types";
+
+export function orderDocument(kind: OrderKind, order: FiniteOrder): OrderDocument {
+  return {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    kind,
+    elements: order.map(({ value, relations, x, y }) => ({
+      value,
+      relations: [...relations],
+      ...(x !== undefined && y !== undefined ? { x, y } : {}),
+    })),
+  };
+}
+
+export function permutationDocument(
+  elements: string[],
+  mapping: string[]
+): PermutationDocument {
+  return {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    kind: "permutation",
+    elements: [...elements],
+    mapping: [...mapping],
+  };
+}
+
+export function stringifyDocument(doc: StructureDocument): string {
+  return JSON.stringify(doc, null, 2) + "\n";
+}
+
+// --------------------------------------------------------------------
+// Validation
+// --------------------------------------------------------------------
+class DocumentError extends Error {}
+
+const fail = (message: string): never => {
+  throw new DocumentError(message);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function readLabels(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) fail(`${path} must be an array.`);
+  const labels = value as unknown[];
+  labels.forEach((label, i) => {
+    if (typeof label !== "string" || !label.trim()) {
+      fail(`${path}[${i}] must be a non-empty string.`);
+    }
+  });
+  return labels as string[];
+}
+
+function readHeader(value: unknown, accepted: StructureKind[]) {
+  if (!isRecord(value)) fail("The file must contain a JSON object.");
+  const doc = value as Record<string, unknown>;
+  if (doc.format !== FILE_FORMAT) {
+    fail(`"format" must be "${FILE_FORMAT}"; this is not a Discreta structure file.`);
+  }
+  if (!Number.isInteger(doc.version) || (doc.version as number) < 1) {
+    fail(`"version" must be a positive integer.`);
+  }
+  if ((doc.version as number) > FILE_VERSION) {
+    fail(
+      `The file uses format version ${doc.version}, but this app only reads up to version ${FILE_VERSION}.`
+    );
+  }
+  if (!accepted.includes(doc.kind as StructureKind)) {
+    fail(
+      `"kind" is ${JSON.stringify(doc.kind)}; expected ${accepted
+        .map((k) => `"${k}"`)
+        .join(" or ")}.`
+    );
+  }
+  return doc;
+}
+
+function readOrder(value: unknown): FiniteOrder {
+  if (!Array.isArray(value)) fail(`"elements" must be an array.`);
+  const items = value as unknown[];
+  if (items.length === 0) fail(`"elements" must list at least one element.`);
+  const order: FiniteOrder = items.map((item, i) => {
+    const path = `elements[${i}]`;
+    if (!isRecord(item)) fail(`${path} must be an object.`);
+    const el = item as Record<string, unknown>;
+    if (typeof el.value !== "string" || !el.value.trim()) {
+      fail(`${path}.value must be a non-empty string.`);
+    }
+    const relations = readLabels(el.relations ?? [], `${path}.relations`);
+    for (const axis of ["x", "y"] as const) {
+      const coord = el[axis];
+      if (coord !== undefined && (typeof coord !== "number" || !Number.isFinite(coord))) {
+        fail(`${path}.${axis} must be a number.`);
+      }
+    }
+    // A position needs both coordinates; an element without one is laid out
+    if ((el.x === undefined) !== (el.y === undefined)) {
+      fail(`${path} must give both x and y, or neither.`);
+    }
+    return {
+      value: el.value as string,
+      relations,
+      ...(el.x !== undefined ? { x: el.x as number, y: el.y as number } : {}),
+    };
+  });
+
+  const values = order.map((el) => el.value);
+  order.forEach((el, i) => {
+    if (values.indexOf(el.value) !== i) {
+      fail(`elements[${i}]: "${el.value}" appears more than once.`);
+    }
+    el.relations.forEach((rel, j) => {
+      if (!values.includes(rel)) {
+        fail(`elements[${i}].relations[${j}]: "${rel}" is not an element.`);
+      }
+      if (el.relations.indexOf(rel) !== j) {
+        fail(`elements[${i}].relations[${j}]: "${el.value} ≤ ${rel}" is listed twice.`);
+      }
+    });
+  });
+  return order;
+}
+
+function readPermutation(doc: Record<string, unknown>) {
+  const elements = readLabels(doc.elements, `"elements"`);
+  const mapping = readLabels(doc.mapping, `"mapping"`);
+  if (elements.length === 0) fail(`"elements" must list at least one element.`);
+  elements.forEach((el, i) => {
+    if (elements.indexOf(el) !== i) {
+      fail(`elements[${i}]: "${el}" appears more than once.`);
+    }
+  });
+  if (mapping.length !== elements.length) {
+    fail(
+      `"mapping" has ${mapping.length} entries but "elements" has ${elements.length}.`
+    );
+  }
+  mapping.forEach((image, i) => {
+    if (!elements.includes(image)) {
+      fail(`mapping[${i}]: "${image}" is not an element.`);
+    }
+  });
+  return { elements, mapping };
+}
+
+/**
+ * Validate a parsed JSON value as a document of one of the `accepted` kinds.
+ * Posets and lattices share a shape, so order games accept either.
+ */
+export function readDocument(
+  value: unknown,
+  accepted: StructureKind[]
+): DocumentResult<StructureDocument> {
+  try {
+    const doc = readHeader(value, accepted);
+    if (doc.kind === "permutation") {
+      return {
+        ok: true,
+        document: {
+          format: FILE_FORMAT,
+          version: FILE_VERSION,
+          kind: "permutation",
+          ...readPermutation(doc),
+        },
+      };
+    }
+    return {
+      ok: true,
+      document: {
+        format: FILE_FORMAT,
+        version: FILE_VERSION,
+        kind: doc.kind as OrderKind,
+        elements: readOrder(doc.elements),
+      },
+    };
+  } catch (err) {
+    if (err instanceof DocumentError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
+
+/** Parse file text as a poset or lattice document. */
+export function parseOrderDocument(text: string): DocumentResult<OrderDocument> {
+  return parseText(text, ["poset", "lattice"]) as DocumentResult<OrderDocument>;
+}
+
+/** Parse file text as a permutation document. */
+export function parsePermutationDocument(
+  text: string
+): DocumentResult<PermutationDocument> {
+  return parseText(text, ["permutation"]) as DocumentResult<PermutationDocument>;
+}
+
+function parseText(
+  text: string,
+  accepted: StructureKind[]
+): DocumentResult<StructureDocument> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return {
+      ok: false,
+      error: `Not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  return readDocument(value, accepted);
+}
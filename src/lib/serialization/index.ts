@@ -0,0 +1,27 @@
+export {
+  FILE_FORMAT,
+  FILE_VERSION,
+} from "./types";
+export type {
+  DocumentResult,
+  OrderDocument,
+  OrderKind,
+  PermutationDocument,
+  StructureDocument,
+  StructureKind,
+} from "./types";
+export {
+  orderDocument,
+  parseOrderDocument,
+  parsePermutationDocument,
+  permutationDocument,
+  readDocument,
+  stringifyDocument,
+} from "./document";
+export {
+  decodeOrderStructure,
+  decodePermutationStructure,
+  decodeStructure,
+  encodeStructure,
+  structureUrl,
+} from "./url";
@@ -0,0 +1,44 @@
+import type { FiniteOrder } from "@/lib/order";
+
+/** Identifies a Discreta structure file. */
+export const FILE_FORMAT = "discreta";
+
+/**
+ * Current schema version. Bump it when the document shape changes and teach
+ * `readDocument` to upgrade older documents.
+ */
+export const FILE_VERSION = 1;
+
+export type OrderKind = "poset" | "lattice";
+
+/**
+ * A poset or lattice: the same shape the games keep in state, including the
+ * optional node positions.
+ */
+export type OrderDocument = {
+  format: typeof FILE_FORMAT;
+  version: number;
+  kind: OrderKind;
+  elements: FiniteOrder;
+};
+
+/**
+ * A permutation in two-row form: `elements[i]` is sent to `mapping[i]`. The
+ * mapping need not be a bijection, so an unfinished table can be saved too.
+ */
+export type PermutationDocument = {
+  format: typeof FILE_FORMAT;
+  version: number;
+  kind: "permutation";
+  elements: string[];
+  mapping: string[];
+};
+
+export type StructureDocument = OrderDocument | PermutationDocument;
+
+export type StructureKind = StructureDocument["kind"];
+
+/** Outcome of reading a document; `error` names the offending field. */
+export type DocumentResult<T extends StructureDocument> =
+  | { ok: true; document: T }
+  | { ok: false; error: string };
@@ -0,0 +1,150 @@
+import { readDocument } from "./document";
+import {
+  type DocumentResult,
+  type OrderDocument,
+  type PermutationDocument,
+  type StructureDocument,
+  type StructureKind,
+} from "./types";
+
+/**
+ * Compact tuple form used in URLs. Relations and images are element indices
+ * and positions are rounded to whole pixels:
+ *   order:       [version, "p" | "l", [[value, [relation indices], x?, y?], ...]]
+ *   permutation: [version, "m", [elements], [image indices]]
+ */
+type CompactElement = [string, number[]] | [string, number[], number, number];
+type CompactDocument =
+  | [number, "p" | "l", CompactElement[]]
+  | [number, "m", string[], number[]];
+
+const KIND_CODES: Record<StructureKind, "p" | "l" | "m"> = {
+  poset: "p",
+  lattice: "l",
+  permutation: "m",
+};
+
+function toCompact(doc: StructureDocument): CompactDocument {
+  if (doc.kind === "permutation") {
+    return [
+      doc.version,
+      "m",
+      doc.elements,
+      doc.mapping.map((image) => doc.elements.indexOf(image)),
+    ];
+  }
+  const values = doc.elements.map((el) => el.value);
+  return [
+    doc.version,
+    KIND_CODES[doc.kind] as "p" | "l",
+    doc.elements.map((el): CompactElement => {
+      const relations = el.relations.map((r) => values.indexOf(r));
+      return el.x !== undefined && el.y !== undefined
+        ? [el.value, relations, Math.round(el.x), Math.round(el.y)]
+        : [el.value, relations];
+    }),
+  ];
+}
+
+/**
+ * Expand the tuple form back into a document. Malformed input yields a
+ * document that `readDocument` rejects with a field-level message.
+ */
+function fromCompact(value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+  const [version, code, first, second] = value;
+  const at = (labels: unknown, i: unknown) =>
+    Array.isArray(labels) && typeof i === "number" ? labels[i] : i;
+  const base = { format: "discreta", version };
+  if (code === "m") {
+    return {
+      ...base,
+      kind: "permutation",
+      elements: first,
+      mapping: Array.isArray(second) ? second.map((i) => at(first, i)) : second,
+    };
+  }
+  const kind = code === "p" ? "poset" : code === "l" ? "lattice" : code;
+  if (!Array.isArray(first)) return { ...base, kind, elements: first };
+  const values = first.map((el) => (Array.isArray(el) ? el[0] : undefined));
+  return {
+    ...base,
+    kind,
+    elements: first.map((el) => {
+      if (!Array.isArray(el)) return el;
+      const [v, relations, x, y] = el;
+      return {
+        value: v,
+        relations: Array.isArray(relations)
+          ? relations.map((i) => at(values, i))
+          : relations,
+        ...(x !== undefined ? { x, y } : {}),
+      };
+    }),
+  };
+}
+
+// base64url over UTF-8, so labels such as "∅" or "{a,b}" survive
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64);
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0))
+  );
+}
+
+/** Encode a structure for the `s` URL parameter. */
+export function encodeStructure(doc: StructureDocument): string {
+  return toBase64Url(JSON.stringify(toCompact(doc)));
+}
+
+/**
+ * Decode an `s` URL parameter, accepting only the given kinds. Posets and
+ * lattices share a shape, so order games accept either.
+ */
+export function decodeStructure(
+  encoded: string,
+  accepted: StructureKind[]
+): DocumentResult<StructureDocument> {
+  let value: unknown;
+  try {
+    value = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return { ok: false, error: "The link is damaged or incomplete." };
+  }
+  return readDocument(fromCompact(value), accepted);
+}
+
+export function decodeOrderStructure(encoded: string): DocumentResult<OrderDocument> {
+  return decodeStructure(encoded, ["poset", "lattice"]) as DocumentResult<OrderDocument>;
+}
+
+export function decodePermutationStructure(
+  encoded: string
+): DocumentResult<PermutationDocument> {
+  return decodeStructure(encoded, ["permutation"]) as DocumentResult<PermutationDocument>;
+}
+
+/**
+ * Link to `base` (origin and path) that restores `doc`, keeping any extra
+ * parameters that are set.
+ */
+export function structureUrl(
+  base: string,
+  doc: StructureDocument,
+  extra: Record<string, string | undefined> = {}
+): string {
+  const params = new URLSearchParams();
+  Object.entries(extra).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  params.set("s", encodeStructure(doc));
+  return `${base}?${params.toString()}`;
+}
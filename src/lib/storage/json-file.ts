@@ -0,0 +1,60 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Directory holding the app's JSON data files. Defaults to `./data` next to
+ * the project; override with DATA_DIR.
+ */
+export function dataDir(): string {
+  return process.env.DATA_DIR ?? path.join(process.cwd(), "data");
+}
+
+/**
+ * Read a JSON file from the data directory, or `fallback` if it does not
+ * exist yet.
+ */
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(path.join(dataDir(), name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename).
+ */
+export async function writeJsonFile<T>(name: string, data: T): Promise<void> {
+  const dir = dataDir();
+  await fs.mkdir(dir, { recursive: true });
+  const target = path.join(dir, name);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+// One queue per file so read-modify-write cycles never interleave
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, transform and write back a JSON file, serialised per file within this
+ * process. Returns whatever `update` returns alongside the new data.
+ */
+export function updateJsonFile<T, R>(
+  name: string,
+  fallback: T,
+  update: (data: T) => { data: T; result: R }
+): Promise<R> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const { data, result } = update(await readJsonFile(name, fallback));
+      await writeJsonFile(name, data);
+      return result;
+    });
+  queues.set(name, next);
+  return next;
+}
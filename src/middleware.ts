@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/token";
+
+/**
+ * Send visitors without a valid session cookie to the login page. The
+ * cookie signature is checked here; route handlers additionally look the
+ * session up in the store, so a logged-out cookie cannot reach any data.
+ */
+export async function middleware(request: NextRequest) {
+  const sessionId = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (sessionId) return NextResponse.next();
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*", "/games/:path*", "/puzzles/:path*", "/exercises/:path*"],
+};